@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import { ActivityEvent, AnnotationStatus, Severity } from './types';
+import { SEVERITY_NAMES } from './labels';
+import { isClosed, STATUS_NAMES } from './status';
+import AuthorAvatar from './AuthorAvatar';
+
+interface ActivityLogProps {
+  // Oldest first, as stored
+  activity: ActivityEvent[];
+}
+
+// Types shown as "before → after"; the rest show whichever value they have
+const CHANGES = new Set<ActivityEvent['type']>(['text', 'status', 'moved', 'reshaped', 'color', 'label', 'severity', 'replyEdited']);
+
+// e.g. "resolved this", for "Ann Lee resolved this"
+function describeEvent(event: ActivityEvent): string {
+  const { before, after } = event;
+  switch (event.type) {
+    case 'created':
+      return 'created this';
+    case 'text':
+      return 'edited the note';
+    case 'status': {
+      const to = after as AnnotationStatus;
+      if (!isClosed(to) && before && isClosed(before as AnnotationStatus)) return 'reopened this';
+      if (to === 'resolved') return 'resolved this';
+      return `set the status to ${STATUS_NAMES[to] ?? to}`;
+    }
+    case 'moved':
+      return 'moved the highlight';
+    case 'reshaped':
+      return 'reshaped the highlight';
+    case 'color':
+      return 'changed the color';
+    case 'label':
+      return after ? `filed this under ${after}` : 'removed the label';
+    case 'severity':
+      return after ? `set the severity to ${SEVERITY_NAMES[after as Severity] ?? after}` : 'cleared the severity';
+    case 'reply':
+      return 'replied';
+    case 'replyEdited':
+      return 'edited a reply';
+    case 'replyDeleted':
+      return 'deleted a reply';
+    case 'replyRestored':
+      return 'restored a reply';
+    case 'deleted':
+      return 'deleted this';
+    case 'restored':
+      return 'restored this';
+    case 'imported':
+      return 'imported this';
+  }
+}
+
+// A before or after value in readable form
+function formatValue(event: ActivityEvent, value: string | undefined): string {
+  if (value === undefined || value === '') return 'none';
+  if (event.type === 'status') return STATUS_NAMES[value as AnnotationStatus] ?? value;
+  if (event.type === 'severity') return SEVERITY_NAMES[value as Severity] ?? value;
+  return value;
+}
+
+const formatWhen = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// An annotation's audit trail, newest first, collapsed until asked for
+export default function ActivityLog({ activity }: ActivityLogProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="border-t border-gray-100 pt-2">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+      >
+        {expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <History size={12} />
+        History ({activity.length})
+      </button>
+      {expanded && (
+        <ol className="mt-2 space-y-2">
+          {[...activity].reverse().map(event => (
+            <li key={event.id} className="flex items-start gap-2 text-[11px] text-gray-600">
+              <AuthorAvatar author={event.actor} size={14} />
+              <div className="flex-1 min-w-0">
+                <p>
+                  <span className="font-medium text-gray-700">{event.actor.name}</span> {describeEvent(event)}
+                  <span className="text-gray-400"> · {formatWhen(event.timestamp)}</span>
+                </p>
+                {CHANGES.has(event.type) ? (
+                  <p className="text-gray-400 truncate" title={`${formatValue(event, event.before)} → ${formatValue(event, event.after)}`}>
+                    {formatValue(event, event.before)} → {formatValue(event, event.after)}
+                  </p>
+                ) : (event.before ?? event.after) && (
+                  <p className="text-gray-400 truncate" title={event.before ?? event.after}>{event.before ?? event.after}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+      {expanded && activity[0]?.type !== 'created' && (
+        <p className="mt-2 text-[10px] text-gray-400 italic">Changes made before the history was kept are not listed.</p>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,34 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { X, Send, CheckCircle } from 'lucide-react';
-import { Annotation } from './types';
+import React, { useState, useEffect } from 'react';
+import { X, CheckCircle, Pencil, Trash2, Brush, RotateCcw } from 'lucide-react';
+import { Annotation, AnnotationStatus, Author, Label, Severity } from './types';
+import { ANNOTATION_COLORS } from './colors';
+import { SEVERITY_NAMES } from './labels';
+import { SEVERITIES } from './schema';
+import { isClosed, nextStatuses, STATUS_NAMES } from './status';
+import AuthorAvatar from './AuthorAvatar';
+import ActivityLog from './ActivityLog';
+import Markdown from './Markdown';
+import ReplyComposer from './ReplyComposer';
 
 interface AnnotationChatProps {
   annotation: Annotation;
   position: { x: number; y: number };
   onClose: () => void;
-  onReply: (annotationId: string, text: string) => void;
-  onMarkComplete: (annotationId:string) => void;
+  // The local user, who can edit and delete their own replies
+  currentAuthor: Author;
+  // Who replies can @mention
+  authors: Author[];
+  onReply: (annotationId: string, text: string, mentions: Author[]) => void;
+  onEditReply: (annotationId: string, replyId: string, text: string, mentions: Author[]) => void;
+  onDeleteReply: (annotationId: string, replyId: string) => void;
+  onChangeStatus: (annotationId: string, status: AnnotationStatus) => void;
+  onEditText: (annotationId: string, text: string) => void;
+  onChangeColor: (annotationId: string, color: string) => void;
+  labels: Label[];
+  onChangeLabel: (annotationId: string, label: Label | null) => void;
+  onChangeSeverity: (annotationId: string, severity: Severity | null) => void;
+  onDelete: (annotationId: string) => void;
+  onAddStrokes: (annotationId: string) => void;
   onPositionChange: (position: { x: number; y: number }) => void;
   onResetPosition: () => void;
 }
@@ -16,22 +37,31 @@ export default function AnnotationChat({
   annotation,
   position,
   onClose,
+  currentAuthor,
+  authors,
   onReply,
-  onMarkComplete,
+  onEditReply,
+  onDeleteReply,
+  onChangeStatus,
+  onEditText,
+  onChangeColor,
+  labels,
+  onChangeLabel,
+  onChangeSeverity,
+  onDelete,
+  onAddStrokes,
   onPositionChange,
   onResetPosition,
 }: AnnotationChatProps) {
-  const [replyText, setReplyText] = useState("");
+  const [editingReplyId, setEditingReplyId] = useState<string | null>(null);
+  const [deletingReplyId, setDeletingReplyId] = useState<string | null>(null);
   const [showConfirm, setShowConfirm] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [editingText, setEditingText] = useState<string | null>(null);
 
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
 
-  useEffect(() => {
-    inputRef.current?.focus();
-  }, []);
-
   const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
     // Prevent starting a drag from buttons
     if ((e.target as HTMLElement).closest('button')) return;
@@ -72,30 +102,41 @@ export default function AnnotationChat({
   }, [isDragging, dragOffset]);
 
 
-  const handleSendReply = () => {
-    if (!replyText.trim()) return;
-    onReply(annotation.id, replyText);
-    setReplyText("");
+  const handleSaveReply = (replyId: string, text: string, mentions: Author[]) => {
+    onEditReply(annotation.id, replyId, text, mentions);
+    setEditingReplyId(null);
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      handleSendReply();
-    }
-    if (e.key === 'Escape') {
-      onClose();
+  const handleConfirmResolve = () => {
+    onChangeStatus(annotation.id, 'resolved');
+    setShowConfirm(false);
+  };
+
+  const handleSaveEdit = () => {
+    if (editingText === null) return;
+    if (editingText.trim() !== annotation.text) {
+      onEditText(annotation.id, editingText.trim());
     }
+    setEditingText(null);
   };
 
-  const handleConfirmComplete = () => {
-    onMarkComplete(annotation.id);
-    setShowConfirm(false);
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSaveEdit();
+    }
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      setEditingText(null);
+    }
   };
 
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const mentionable = authors.filter(a => a.id !== currentAuthor.id);
+
   return (
     <div 
       style={{ 
@@ -140,57 +181,266 @@ export default function AnnotationChat({
       {/* Messages */}
       <div className="max-h-[250px] overflow-y-auto p-4 space-y-3">
         {/* Original annotation */}
-        <div className="bg-gray-50 rounded-lg p-3">
-          <p className="text-sm text-gray-800 leading-relaxed">{annotation.text}</p>
-          <span className="text-[10px] text-gray-400 mt-1 block">{formatTime(annotation.timestamp)}</span>
+        <div className="group bg-gray-50 rounded-lg p-3">
+          <div className="flex items-center gap-2 mb-1.5">
+            <AuthorAvatar author={annotation.author} />
+            <span className="text-xs font-medium text-gray-700 truncate">{annotation.author.name}</span>
+            <span className="text-[10px] text-gray-400 ml-auto">{formatTime(annotation.timestamp)}</span>
+          </div>
+          {editingText === null ? (
+            <div className="flex items-start gap-2">
+              <p className="flex-1 text-sm text-gray-800 leading-relaxed">
+                {annotation.text || <span className="text-gray-400 italic">No note</span>}
+              </p>
+              <button
+                onClick={() => setEditingText(annotation.text)}
+                className="text-gray-300 hover:text-gray-600 opacity-0 group-hover:opacity-100 transition"
+                title="Edit note"
+              >
+                <Pencil size={13} />
+              </button>
+            </div>
+          ) : (
+            <div>
+              <textarea
+                autoFocus
+                value={editingText}
+                onChange={(e) => setEditingText(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                className="w-full border border-gray-300 rounded p-2 text-sm min-h-[50px] resize-none bg-white"
+              />
+              <div className="flex justify-end gap-2 mt-1">
+                <button
+                  onClick={() => setEditingText(null)}
+                  className="text-xs text-gray-500 hover:text-gray-700 px-2 py-1"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveEdit}
+                  className="text-xs bg-black text-white px-3 py-1 rounded hover:bg-gray-800"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Appearance */}
+        <div className="flex items-center gap-2">
+          {ANNOTATION_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => onChangeColor(annotation.id, color)}
+              className={`w-4 h-4 rounded-full border-2 transition ${annotation.color === color ? 'border-gray-700' : 'border-transparent hover:border-gray-300'}`}
+              style={{ backgroundColor: color.replace(/[\d.]+\)$/g, '0.8)') }}
+              title="Change color"
+            />
+          ))}
+          {annotation.highlight.type === 'brush' && (
+            <button
+              onClick={() => onAddStrokes(annotation.id)}
+              className="ml-auto flex items-center gap-1 text-xs text-gray-500 hover:text-black"
+              title="Draw more strokes into this annotation"
+            >
+              <Brush size={12} />
+              Add strokes
+            </button>
+          )}
+        </div>
+
+        {/* Status, offering only the moves the workflow allows from it */}
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Status</span>
+          <select
+            value={annotation.status}
+            onChange={(e) => onChangeStatus(annotation.id, e.target.value as AnnotationStatus)}
+            className="flex-1 min-w-0 text-xs border border-gray-200 rounded px-1.5 py-1 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+            title="Status"
+          >
+            {[annotation.status, ...nextStatuses(annotation.status)].map(s => (
+              <option key={s} value={s}>{STATUS_NAMES[s]}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Label and severity. A label since removed from the set still shows. */}
+        <div className="flex items-center gap-2">
+          <select
+            value={annotation.label?.id ?? ''}
+            onChange={(e) => {
+              if (!e.target.value) onChangeLabel(annotation.id, null);
+              const label = labels.find(l => l.id === e.target.value);
+              if (label) onChangeLabel(annotation.id, label);
+            }}
+            className="flex-1 min-w-0 text-xs border border-gray-200 rounded px-1.5 py-1 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+            title="Label"
+          >
+            <option value="">No label</option>
+            {annotation.label && !labels.some(l => l.id === annotation.label?.id) && (
+              <option value={annotation.label.id}>{annotation.label.name}</option>
+            )}
+            {labels.map(l => (
+              <option key={l.id} value={l.id}>{l.name}</option>
+            ))}
+          </select>
+          <select
+            value={annotation.severity ?? ''}
+            onChange={(e) => onChangeSeverity(annotation.id, (e.target.value || null) as Severity | null)}
+            className="flex-1 min-w-0 text-xs border border-gray-200 rounded px-1.5 py-1 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+            title="Severity"
+          >
+            <option value="">No severity</option>
+            {SEVERITIES.map(s => (
+              <option key={s} value={s}>{SEVERITY_NAMES[s]}</option>
+            ))}
+          </select>
         </div>
 
         {/* Replies */}
-        {annotation.replies.map((reply) => (
-          <div key={reply.id} className="pl-3 border-l-2 border-gray-200">
-            <div className="bg-blue-50 rounded-lg p-3">
-              <p className="text-sm text-gray-800 leading-relaxed">{reply.text}</p>
-              <span className="text-[10px] text-gray-400 mt-1 block">{formatTime(reply.timestamp)}</span>
+        {annotation.replies.map((reply) => {
+          const isOwn = reply.author.id === currentAuthor.id;
+          return (
+            <div key={reply.id} className="pl-3 border-l-2 border-gray-200">
+              <div className="group bg-blue-50 rounded-lg p-3">
+                <div className="flex items-center gap-2 mb-1.5">
+                  <AuthorAvatar author={reply.author} />
+                  <span className="text-xs font-medium text-gray-700 truncate">{reply.author.name}</span>
+                  {isOwn && editingReplyId !== reply.id && deletingReplyId !== reply.id && (
+                    <span className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition">
+                      <button
+                        onClick={() => setEditingReplyId(reply.id)}
+                        className="text-gray-300 hover:text-gray-600"
+                        title="Edit reply"
+                      >
+                        <Pencil size={12} />
+                      </button>
+                      <button
+                        onClick={() => setDeletingReplyId(reply.id)}
+                        className="text-gray-300 hover:text-red-600"
+                        title="Delete reply"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </span>
+                  )}
+                  <span
+                    className="text-[10px] text-gray-400 ml-auto whitespace-nowrap"
+                    title={reply.editedAt !== undefined ? `Edited ${new Date(reply.editedAt).toLocaleString()}` : undefined}
+                  >
+                    {formatTime(reply.timestamp)}
+                    {reply.editedAt !== undefined && ' (edited)'}
+                  </span>
+                </div>
+                {editingReplyId === reply.id ? (
+                  <ReplyComposer
+                    editing
+                    initialText={reply.text}
+                    initialMentions={reply.mentions}
+                    authors={mentionable}
+                    onSubmit={(text, mentions) => handleSaveReply(reply.id, text, mentions)}
+                    onCancel={() => setEditingReplyId(null)}
+                  />
+                ) : (
+                  <div className="text-sm text-gray-800 leading-relaxed">
+                    <Markdown text={reply.text} mentions={reply.mentions} />
+                  </div>
+                )}
+                {deletingReplyId === reply.id && (
+                  <div className="flex items-center gap-2 mt-2">
+                    <span className="flex-1 text-xs text-gray-600">Delete this reply?</span>
+                    <button
+                      onClick={() => setDeletingReplyId(null)}
+                      className="text-xs text-gray-500 hover:text-gray-700 px-2 py-1"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => {
+                        onDeleteReply(annotation.id, reply.id);
+                        setDeletingReplyId(null);
+                      }}
+                      className="text-xs bg-red-600 text-white px-3 py-1 rounded hover:bg-red-700"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
+
+        <ActivityLog activity={annotation.activity ?? []} />
       </div>
 
       {/* Reply Input */}
       <div className="p-3 border-t border-gray-100 bg-white">
-        <div className="flex items-center gap-2">
-          <input
-            ref={inputRef}
-            type="text"
-            value={replyText}
-            onChange={(e) => setReplyText(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Reply..."
-            className="flex-1 text-sm border border-gray-200 rounded-full px-4 py-2 focus:outline-none focus:border-gray-400"
-          />
-          <button 
-            onClick={handleSendReply}
-            disabled={!replyText.trim()}
-            className="p-2 text-gray-500 hover:text-black disabled:opacity-30"
-          >
-            <Send size={18} />
-          </button>
-        </div>
+        <ReplyComposer
+          authors={mentionable}
+          onSubmit={(text, mentions) => onReply(annotation.id, text, mentions)}
+          onCancel={onClose}
+        />
       </div>
 
       {/* Actions */}
       <div className="px-4 py-3 border-t border-gray-100 bg-gray-50">
-        {!showConfirm ? (
-          <button 
-            onClick={() => setShowConfirm(true)}
-            className="w-full flex items-center justify-center gap-2 text-sm text-green-600 hover:text-green-700 py-2 rounded hover:bg-green-50 transition"
-          >
-            <CheckCircle size={16} />
-            Mark as Complete
-          </button>
+        {isClosed(annotation.status) ? (
+          <div className="flex items-center gap-2">
+            <span className="flex-1 flex items-center gap-1.5 text-xs text-gray-500">
+              <CheckCircle size={14} className={annotation.status === 'resolved' ? 'text-green-600' : 'text-gray-400'} />
+              {STATUS_NAMES[annotation.status]}
+              {annotation.statusChangedBy && ` by ${annotation.statusChangedBy.name}`}
+              {annotation.statusChangedAt !== undefined &&
+                ` · ${new Date(annotation.statusChangedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`}
+            </span>
+            <button
+              onClick={() => onChangeStatus(annotation.id, 'open')}
+              className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 px-3 py-2 rounded hover:bg-blue-50 transition"
+            >
+              <RotateCcw size={14} />
+              Reopen
+            </button>
+          </div>
+        ) : confirmDelete ? (
+          <div className="space-y-2">
+            <p className="text-xs text-center text-gray-600">Delete this annotation and its replies?</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setConfirmDelete(false)}
+                className="flex-1 text-sm py-2 rounded border border-gray-200 hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => onDelete(annotation.id)}
+                className="flex-1 text-sm py-2 rounded bg-red-600 text-white hover:bg-red-700"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ) : !showConfirm ? (
+          <div className="flex gap-2">
+            <button 
+              onClick={() => setShowConfirm(true)}
+              className="flex-1 flex items-center justify-center gap-2 text-sm text-green-600 hover:text-green-700 py-2 rounded hover:bg-green-50 transition"
+            >
+              <CheckCircle size={16} />
+              Resolve
+            </button>
+            <button
+              onClick={() => setConfirmDelete(true)}
+              className="px-3 text-gray-400 hover:text-red-600 rounded hover:bg-red-50 transition"
+              title="Delete annotation"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
         ) : (
           <div className="space-y-2">
-            <p className="text-xs text-center text-gray-600">Are you sure? This will remove the annotation.</p>
+            <p className="text-xs text-center text-gray-600">Resolve this annotation? It moves to the Closed tab and can be reopened.</p>
             <div className="flex gap-2">
               <button 
                 onClick={() => setShowConfirm(false)}
@@ -199,7 +449,7 @@ export default function AnnotationChat({
                 Cancel
               </button>
               <button 
-                onClick={handleConfirmComplete}
+                onClick={handleConfirmResolve}
                 className="flex-1 text-sm py-2 rounded bg-green-600 text-white hover:bg-green-700"
               >
                 Confirm
@@ -1,79 +1,263 @@
 "use client";
 
 import React, { useRef, useState, useEffect, useCallback } from "react";
-import { Square, Brush, Eye, EyeOff, ChevronRight, ChevronLeft, Upload } from "lucide-react";
-import { Highlight, RectHighlight, BrushHighlight, BrushStroke, Point, Annotation } from "./types";
+import { Square, Brush, Eraser, Eye, EyeOff, ChevronRight, ChevronLeft, Upload, Undo2, Redo2, ImageDown, MousePointer2, Circle, ArrowUpRight, Pentagon, Lasso, MapPin, Wand2, Magnet } from "lucide-react";
+import { Highlight, BrushHighlight, BrushStroke, Point, Annotation, AnnotationChanges, AnnotationStatus, Author, ImageSize, Label, Severity } from "./types";
+import { computeImageId } from "./documents";
+import { createId } from "./ids";
+import { eraseStrokes, simplifyPoints, simplifyStroke } from "./strokes";
+import { createSpatialIndex, SpatialIndex } from "./spatialIndex";
+import { createImagePyramid, getLevelSize, ImagePyramid } from "./imagePyramid";
+import { createTileLayer, TileLayer } from "./tileLayer";
+import { createSegmenter, SegmentArea, Segmenter } from "./segmentation";
+import { drawHighlight, drawStroke, tracePolygon } from "./drawing";
+import { downloadAnnotatedImage } from "./exportImage";
+import { ANNOTATION_COLORS, toHighlightColor } from "./colors";
+import { SEVERITY_NAMES, SEVERITY_STYLES } from "./labels";
+import { SEVERITIES } from "./schema";
+import { isClosed, STATUS_OUTLINES } from "./status";
+import {
+  Bounds,
+  findHandleAtPoint,
+  getCanvasSize,
+  getHandlePosition,
+  getHighlightBounds,
+  HANDLE_CURSORS,
+  isBoxHighlight,
+  MAX_CANVAS_DIMENSION,
+  resizeBox,
+  RESIZE_HANDLES,
+  ResizeHandle,
+  translateHighlight,
+} from "./geometry";
 
 interface AnnotationEditorProps {
   annotations: Annotation[];
+  // Stamped on annotations created here
+  author: Author;
+  // Offered in the new-annotation popover
+  labels: Label[];
   onAddAnnotation: (annotation: Annotation) => void;
-  onClearAnnotations: () => void;
+  onUpdateAnnotation: (id: string, changes: AnnotationChanges) => void;
+  onDeleteAnnotation: (id: string) => void;
+  // Brush annotation that new strokes are being added to, if any
+  extendAnnotationId: string | null;
+  onExtendEnd: () => void;
+  // Image to display; changing it loads the new image
+  image: string | Blob | null;
+  // Called with the image's id, bytes and intrinsic size once it has been identified
+  onImageLoad: (imageId: string, blob: Blob, size: ImageSize) => void;
   selectedAnnotationId: string | null;
   onSelectAnnotation: (id: string | null) => void;
+  // Draw closed annotations ghosted so they can be found and reopened
+  showClosed: boolean;
+  // Annotations matching the panel's search and filters, or null when there is none
+  matchingIds: Set<string> | null;
   panelOpen: boolean;
   onViewChange?: () => void;
 }
 
-type Tool = 'select' | 'brush';
+// 'select' is the rectangle tool
+type Tool = 'move' | 'select' | 'ellipse' | 'arrow' | 'polygon' | 'lasso' | 'wand' | 'pin' | 'brush' | 'eraser';
 
-// Check if a point is near a line segment
-function distanceToLineSegment(point: Point, p1: Point, p2: Point): number {
-  const dx = p2.x - p1.x;
-  const dy = p2.y - p1.y;
-  const lengthSquared = dx * dx + dy * dy;
-  
-  if (lengthSquared === 0) {
-    // p1 and p2 are the same point
-    return Math.sqrt((point.x - p1.x) ** 2 + (point.y - p1.y) ** 2);
+// Tools that create a shape from a single press-drag-release
+type DragTool = 'select' | 'ellipse' | 'arrow';
+const isDragTool = (tool: Tool): tool is DragTool =>
+  tool === 'select' || tool === 'ellipse' || tool === 'arrow';
+
+// Screen-space size of the resize handles drawn on a selected rect
+const HANDLE_SCREEN_SIZE = 8;
+
+// Screen-space distance within which a click closes a polygon on its first vertex
+const POLYGON_CLOSE_DISTANCE = 10;
+
+// Shapes smaller than this (in image pixels) are treated as stray clicks
+const MIN_SHAPE_SIZE = 10;
+
+// How far (in screen pixels) a committed brush stroke or lasso may stray from the raw input
+const SIMPLIFY_TOLERANCE = 0.75;
+
+// Screen-space distance an edge-snapping lasso looks across its outline for an edge
+const SNAP_RADIUS = 12;
+
+// Longest side of the whole-image preview under the tiles
+const PREVIEW_DIMENSION = 2048;
+
+// Longest side of the area the wand or edge snapping samples at once
+const MAX_SEGMENT_DIMENSION = 4096;
+
+// Zoom limits, relative to the image fitted to the view. Zooming in stops once
+// an image pixel covers MAX_PIXEL_ZOOM screen pixels, or at MIN_MAX_SCALE for
+// images that already show at full detail when fitted.
+const MIN_SCALE = 0.5;
+const MIN_MAX_SCALE = 5;
+const MAX_PIXEL_ZOOM = 4;
+
+// Build the highlight for a drag tool, or null if the drag was too small
+function shapeFromDrag(tool: DragTool, start: Point, end: Point, color: string, lineWidth: number): Highlight | null {
+  if (tool === 'arrow') {
+    if (Math.hypot(end.x - start.x, end.y - start.y) <= MIN_SHAPE_SIZE * 1.5) return null;
+    return { type: 'arrow', start, end, lineWidth, color };
   }
-  
-  // Project point onto the line segment
-  let t = ((point.x - p1.x) * dx + (point.y - p1.y) * dy) / lengthSquared;
-  t = Math.max(0, Math.min(1, t));
-  
-  const projX = p1.x + t * dx;
-  const projY = p1.y + t * dy;
-  
-  return Math.sqrt((point.x - projX) ** 2 + (point.y - projY) ** 2);
+  const x = Math.min(start.x, end.x);
+  const y = Math.min(start.y, end.y);
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+  if (width <= MIN_SHAPE_SIZE || height <= MIN_SHAPE_SIZE) return null;
+  return { type: tool === 'ellipse' ? 'ellipse' : 'rect', x, y, width, height, color };
 }
 
-// Check if a point is near a brush stroke (within brush radius)
-function isPointNearStroke(point: Point, stroke: BrushStroke): boolean {
-  const threshold = stroke.brushSize / 2 + 5; // Add small buffer for easier clicking
-  
-  for (let i = 0; i < stroke.points.length - 1; i++) {
-    const dist = distanceToLineSegment(point, stroke.points[i], stroke.points[i + 1]);
-    if (dist <= threshold) {
-      return true;
-    }
+// Arrow shafts scale with the image so they read the same on small and large files
+function getArrowLineWidth(size: ImageSize) {
+  return Math.max(3, Math.round(Math.max(size.width, size.height) / 250));
+}
+
+// Annotations are stored in the source image's pixels, while the overlay
+// canvases are capped at MAX_CANVAS_DIMENSION. `sourceScale` is source pixels
+// per overlay canvas pixel.
+
+// Source image pixels per screen pixel, including the current zoom
+function getSourcePixelRatio(canvas: HTMLCanvasElement, sourceScale: number) {
+  const width = canvas.getBoundingClientRect().width;
+  return width > 0 ? (canvas.width * sourceScale) / width : sourceScale;
+}
+
+// Pointer position in source image pixels
+function getSourcePos(e: { clientX: number; clientY: number }, canvas: HTMLCanvasElement, sourceScale: number): Point {
+  const rect = canvas.getBoundingClientRect();
+  const ratio = getSourcePixelRatio(canvas, sourceScale);
+  return { x: (e.clientX - rect.left) * ratio, y: (e.clientY - rect.top) * ratio };
+}
+
+// The part of the image inside the container grown by `margin` times its own
+// size on every side, in source pixels and clipped to the image. A margin of 1
+// covers whatever a pan could bring into view before the layers are repainted.
+function getVisibleBounds(canvas: HTMLCanvasElement, container: HTMLElement, sourceScale: number, margin: number): Bounds {
+  const rect = canvas.getBoundingClientRect();
+  const view = container.getBoundingClientRect();
+  const ratio = getSourcePixelRatio(canvas, sourceScale);
+  return {
+    minX: Math.max(0, (view.left - margin * view.width - rect.left) * ratio),
+    minY: Math.max(0, (view.top - margin * view.height - rect.top) * ratio),
+    maxX: Math.min(canvas.width * sourceScale, (view.right + margin * view.width - rect.left) * ratio),
+    maxY: Math.min(canvas.height * sourceScale, (view.bottom + margin * view.height - rect.top) * ratio),
+  };
+}
+
+// `bounds` (source pixels) sampled at the pyramid level the tiles show at
+// `sourcePerPixel`, or a coarser one if that would be too large to work on
+async function getSegmentArea(pyramid: ImagePyramid, bounds: Bounds, sourcePerPixel: number): Promise<SegmentArea> {
+  const { size, levelCount } = pyramid;
+  let level = Math.max(0, Math.min(levelCount - 1, Math.floor(Math.log2(sourcePerPixel))));
+  for (;; level++) {
+    const levelSize = getLevelSize(size, level);
+    const scale = levelSize.width / size.width;
+    const x = Math.min(levelSize.width - 1, Math.max(0, Math.floor(bounds.minX * scale)));
+    const y = Math.min(levelSize.height - 1, Math.max(0, Math.floor(bounds.minY * scale)));
+    const width = Math.max(1, Math.min(levelSize.width, Math.ceil(bounds.maxX * scale)) - x);
+    const height = Math.max(1, Math.min(levelSize.height, Math.ceil(bounds.maxY * scale)) - y);
+    if (Math.max(width, height) > MAX_SEGMENT_DIMENSION && level < levelCount - 1) continue;
+    const image = await pyramid.getRegion(level, x, y, width, height);
+    return { image, x: x / scale, y: y / scale, scale };
+  }
+}
+
+// Cleared 2D context for repainting an overlay layer, drawing in source pixels
+function getLayerContext(canvas: HTMLCanvasElement, sourceScale: number) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.resetTransform();
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(1 / sourceScale, 1 / sourceScale);
+  return ctx;
+}
+
+// Selected annotations stand out; the rest dim while one is selected. Without
+// a selection, search and filter matches stand out the same way.
+function getAnnotationOpacity(highlight: Highlight, id: string, selectedId: string | null, matchingIds: Set<string> | null) {
+  if (selectedId && id !== selectedId) return 0.08;
+  if (!selectedId && matchingIds && !matchingIds.has(id)) return 0.08;
+  const isSelected = id === selectedId || (!selectedId && matchingIds !== null);
+  // For rect: use stored color opacity, for brush: use stored opacity
+  if (highlight.type === 'brush') {
+    return isSelected ? Math.min(highlight.opacity + 0.2, 1) : highlight.opacity;
   }
-  return false;
+  return isSelected ? 0.4 : 0.25;
+}
+
+// Dashed box around a highlight whose status has an outline style
+function drawStatusOutline(ctx: CanvasRenderingContext2D, status: AnnotationStatus, highlight: Highlight, ratio: number, alpha: number) {
+  const outline = STATUS_OUTLINES[status];
+  if (!outline) return;
+  const bounds = getHighlightBounds(highlight, ratio);
+  ctx.strokeStyle = `rgba(${outline.rgb}, ${alpha})`;
+  ctx.lineWidth = ratio;
+  ctx.setLineDash(outline.dash.map(d => d * ratio));
+  ctx.strokeRect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+  ctx.setLineDash([]);
+}
+
+// Strokes waiting to become (or extend) a brush annotation. `past` and
+// `future` hold the list as it was around each stroke or erase, for undo and
+// redo; `erasingFrom` is the list an erase started from, until it rubs
+// something out.
+interface StrokeDraft {
+  strokes: BrushStroke[];
+  past: BrushStroke[][];
+  future: BrushStroke[][];
+  erasingFrom: BrushStroke[] | null;
+}
+
+const EMPTY_STROKE_DRAFT: StrokeDraft = { strokes: [], past: [], future: [], erasingFrom: null };
+
+// A saved brush annotation being erased; applied as one change on release
+interface ErasePreview {
+  id: string;
+  original: BrushHighlight;
+  highlight: BrushHighlight;
 }
 
-// Check if a point is inside a rectangle
-function isPointInRect(point: Point, rect: RectHighlight): boolean {
-  return point.x >= rect.x && 
-         point.x <= rect.x + rect.width && 
-         point.y >= rect.y && 
-         point.y <= rect.y + rect.height;
+interface EditDrag {
+  id: string;
+  handle: ResizeHandle | null; // null = move the whole highlight
+  start: Point;
+  original: Highlight;
 }
 
 const AnnotationEditor = ({ 
   annotations, 
+  author,
+  labels,
   onAddAnnotation,
-  onClearAnnotations,
+  onUpdateAnnotation,
+  onDeleteAnnotation,
+  extendAnnotationId,
+  onExtendEnd,
+  image,
+  onImageLoad,
   selectedAnnotationId,
   onSelectAnnotation,
+  showClosed,
+  matchingIds,
   panelOpen,
   onViewChange
 }: AnnotationEditorProps) => {
-  const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
+  // The open image's pyramid, and a small copy of the whole image shown under its tiles
+  const [loadedImage, setLoadedImage] = useState<{ pyramid: ImagePyramid; preview: ImageBitmap } | null>(null);
+  const sourceSize = loadedImage?.pyramid.size ?? null;
+  const sourceScale = sourceSize ? sourceSize.width / getCanvasSize(sourceSize).width : 1;
   
   // Tool state
   const [activeTool, setActiveTool] = useState<Tool>('select');
-  const [brushSize, setBrushSize] = useState(20);
+  const [brushSize, setBrushSize] = useState(20); // Screen pixels at the zoom a stroke starts at
   const [brushOpacity, setBrushOpacity] = useState(1.0);
-  const [brushSettingsVisible, setBrushSettingsVisible] = useState(true);
+  const [wandTolerance, setWandTolerance] = useState(32); // RGB distance, 0-255
+  const [snapLasso, setSnapLasso] = useState(false);
+  const [segmenting, setSegmenting] = useState(false);
+  const [toolSettingsVisible, setToolSettingsVisible] = useState(true);
+  const [exportMenuVisible, setExportMenuVisible] = useState(false);
   
   // View state
   const [showHighlights, setShowHighlights] = useState(true);
@@ -86,22 +270,52 @@ const AnnotationEditor = ({
   // Drawing state
   const [isDrawing, setIsDrawing] = useState(false);
   const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
-  const [dragEnd, setDragEnd] = useState<{ x: number; y: number } | null>(null);
-  const [brushPoints, setBrushPoints] = useState<Point[]>([]);
-  const [pendingStrokes, setPendingStrokes] = useState<BrushStroke[]>([]);
+  const [polygonPoints, setPolygonPoints] = useState<Point[]>([]);
+  const [polygonCursor, setPolygonCursor] = useState<Point | null>(null); // Rubber band end
+  const [strokeDraft, setStrokeDraft] = useState<StrokeDraft>(EMPTY_STROKE_DRAFT);
+  const pendingStrokes = strokeDraft.strokes;
   
+  // Editing existing annotations (move tool)
+  const [editDrag, setEditDrag] = useState<EditDrag | null>(null);
+  const [editPreview, setEditPreview] = useState<{ id: string; highlight: Highlight } | null>(null);
+  const [hoverCursor, setHoverCursor] = useState<string | null>(null);
+  const [erasePreview, setErasePreview] = useState<ErasePreview | null>(null);
+
   // Annotation input
   const [showInput, setShowInput] = useState(false);
   const [pendingHighlight, setPendingHighlight] = useState<Highlight | null>(null);
   const [inputText, setInputText] = useState("");
   const [inputPosition, setInputPosition] = useState<{ x: number; y: number } | null>(null);
   const [pendingColor, setPendingColor] = useState<string | null>(null);
+  const [pendingLabel, setPendingLabel] = useState<Label | null>(null);
+  const [pendingSeverity, setPendingSeverity] = useState<Severity | null>(null);
   
   // Popover dragging
   const [isDraggingPopover, setIsDraggingPopover] = useState(false);
   const [popoverDragOffset, setPopoverDragOffset] = useState<{ x: number; y: number } | null>(null);
   
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Adding strokes to a saved brush annotation switches to the brush tool
+  const [prevExtendId, setPrevExtendId] = useState<string | null>(null);
+  if (extendAnnotationId !== prevExtendId) {
+    setPrevExtendId(extendAnnotationId);
+    if (extendAnnotationId) {
+      setActiveTool('brush');
+      setToolSettingsVisible(true);
+    }
+  }
+  // An unfinished polygon is dropped when switching tools
+  const [prevTool, setPrevTool] = useState<Tool>(activeTool);
+  if (activeTool !== prevTool) {
+    setPrevTool(activeTool);
+    setPolygonPoints([]);
+    setPolygonCursor(null);
+  }
+  const extendTarget = annotations.find(a => a.id === extendAnnotationId);
+  const extendBrush = extendTarget?.highlight.type === 'brush' ? extendTarget.highlight : null;
+
+  const imageCanvasRef = useRef<HTMLCanvasElement>(null);
+  const annotationCanvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null); // Live layer; takes the pointer events
   const containerRef = useRef<HTMLDivElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -110,20 +324,30 @@ const AnnotationEditor = ({
   const snapTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const rafRef = useRef<number | null>(null);
   const isSnappingRef = useRef(false); // Protects snap animation from momentum
-
-  // Maximum canvas dimensions to prevent memory issues
-  // Most browsers can handle up to ~16,384px, but we'll be conservative
-  const MAX_CANVAS_DIMENSION = 8192; // 8K max dimension
-
-  // Subtle highlight colors
-  const annotationColors = [
-    'rgba(255, 180, 0, 0.25)',
-    'rgba(0, 200, 150, 0.25)',
-    'rgba(100, 150, 255, 0.25)',
-    'rgba(255, 100, 100, 0.25)',
-    'rgba(180, 100, 255, 0.25)',
-    'rgba(100, 220, 220, 0.25)',
-  ];
+  const loadTokenRef = useRef(0); // Ignores identity results from superseded loads
+  const lastClickRef = useRef<{ x: number; y: number } | null>(null); // Screen position for the popover
+  const drawPointerRef = useRef<{ id: number; type: string } | null>(null); // Pointer drawing or dragging now
+  const activeTouchesRef = useRef(new Map<number, Point>()); // Fingers down, by pointer id
+
+  // In-progress drag, updated on every pointer move without re-rendering
+  const dragEndRef = useRef<Point | null>(null);
+  const brushPointsRef = useRef<Point[]>([]); // Current brush or lasso drag
+  const brushPressuresRef = useRef<number[]>([]); // Pressure per brush point
+  const strokeSizeRef = useRef(0); // Brush or eraser width in source pixels, fixed as the stroke starts
+  const liveFrameRef = useRef<number | null>(null);
+  const eraserPosRef = useRef<Point | null>(null); // Eraser outline position, while over the canvas
+  const spatialIndexRef = useRef<SpatialIndex | null>(null);
+  const tileContainerRef = useRef<HTMLDivElement>(null);
+  const tileLayerRef = useRef<TileLayer | null>(null);
+  const segmenterRef = useRef<{ image: typeof loadedImage; segmenter: Segmenter } | null>(null);
+  const maxScaleRef = useRef(MIN_MAX_SCALE); // Set by layoutLayers from the image's resolution
+
+  // Hit testing and culling index, synced with the annotations before each use
+  const getSpatialIndex = useCallback(() => {
+    spatialIndexRef.current ??= createSpatialIndex();
+    spatialIndexRef.current.sync(annotations);
+    return spatialIndexRef.current;
+  }, [annotations]);
 
   // Helper to get valid bounds based on current scale
   const getBounds = (currentScale: number) => {
@@ -158,11 +382,93 @@ const AnnotationEditor = ({
     };
   };
 
-  // Handle Wheel (Pan & Zoom)
+  // Handle Wheel (Pan & Zoom) and two-finger touch (Pinch & Pan)
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
 
+    const MAX_OVERSHOOT = 500; // Increased stretch (was 350)
+
+    // Apply Immediately to DOM (Bypassing React Render)
+    const applyTransform = (next: { x: number; y: number; scale: number }) => {
+      transformRef.current = next;
+      if (wrapperRef.current) {
+        wrapperRef.current.style.transition = 'none';
+        wrapperRef.current.style.transform = `translate3d(${next.x}px, ${next.y}px, 0) scale(${next.scale})`;
+        wrapperRef.current.style.cursor = 'grabbing';
+      }
+
+      // Notify Parent (Throttled)
+      if (onViewChange) {
+        if (!rafRef.current) {
+          rafRef.current = requestAnimationFrame(() => {
+            onViewChange();
+            rafRef.current = null;
+          });
+        }
+      }
+    };
+
+    // Snap-Back / Sync State once the gesture has settled
+    const snapBack = () => {
+      // Calculate Snap Targets
+      const current = transformRef.current;
+      let targetScale = current.scale;
+      
+      // Snap scale logic
+      if (targetScale < MIN_SCALE) targetScale = MIN_SCALE;
+      if (targetScale > maxScaleRef.current) targetScale = maxScaleRef.current;
+      
+      const finalBounds = getBounds(targetScale);
+      let targetX = current.x;
+      let targetY = current.y;
+      
+      // Clamp Pan
+      if (targetX < finalBounds.minX) targetX = finalBounds.minX;
+      if (targetX > finalBounds.maxX) targetX = finalBounds.maxX;
+      if (targetY < finalBounds.minY) targetY = finalBounds.minY;
+      if (targetY > finalBounds.maxY) targetY = finalBounds.maxY;
+
+      const snappedState = { x: targetX, y: targetY, scale: targetScale };
+      
+      // Check if we actually need to move (are we out of bounds?)
+      const isOutOfBounds = 
+        Math.abs(targetX - current.x) > 0.1 || 
+        Math.abs(targetY - current.y) > 0.1 || 
+        Math.abs(targetScale - current.scale) > 0.001;
+
+      if (isOutOfBounds && wrapperRef.current) {
+        // MANUAL ANIMATION STRATEGY
+        // 1. Enable transition on DOM (Faster spring - 0.6s)
+        // Using a gentler ease-out curve
+        wrapperRef.current.style.transition = 'transform 0.6s cubic-bezier(0.25, 1, 0.5, 1)';
+        
+        // 2. Force Reflow
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const _ = wrapperRef.current.offsetHeight; 
+        
+        // 3. Set Target Transform
+        wrapperRef.current.style.transform = `translate3d(${targetX}px, ${targetY}px, 0) scale(${targetScale})`;
+        
+        // 4. Update Source of Truth
+        transformRef.current = snappedState;
+        
+        // 5. Protect Animation
+        isSnappingRef.current = true;
+
+        // 6. Wait for animation
+        snapTimeoutRef.current = setTimeout(() => {
+          isSnappingRef.current = false;
+          setIsPanning(false);
+          setTransform(snappedState);
+        }, 600); 
+      } else {
+        transformRef.current = current; 
+        setIsPanning(false);
+        setTransform(current);
+      }
+    };
+
     const onWheel = (e: WheelEvent) => {
       e.preventDefault();
 
@@ -178,24 +484,19 @@ const AnnotationEditor = ({
         isSnappingRef.current = false;
         if (snapTimeoutRef.current) clearTimeout(snapTimeoutRef.current);
       }
-      
-      const MAX_OVERSHOOT = 500; // Increased stretch (was 350)
-      const MIN_ELASTIC_SCALE = 0.5;
-      const MAX_ELASTIC_SCALE = 5.0;
 
       // 1. Update Transform Ref (Source of Truth during interaction)
       const prev = transformRef.current;
       const next = { ...prev };
 
       if (e.ctrlKey || e.metaKey) {
-        // Zoom
+        // Zoom, proportionally so deep zoom takes as long as shallow zoom
         const zoomSensitivity = 0.003;
-        const delta = -e.deltaY * zoomSensitivity;
-        let newScale = prev.scale + delta;
+        let newScale = prev.scale * Math.exp(-e.deltaY * zoomSensitivity);
         
         // Hard clamp
-        if (newScale < MIN_ELASTIC_SCALE) newScale = MIN_ELASTIC_SCALE;
-        if (newScale > MAX_ELASTIC_SCALE) newScale = MAX_ELASTIC_SCALE;
+        if (newScale < MIN_SCALE) newScale = MIN_SCALE;
+        if (newScale > maxScaleRef.current) newScale = maxScaleRef.current;
         
         next.scale = newScale;
       } else {
@@ -235,182 +536,195 @@ const AnnotationEditor = ({
         next.y += dy;
       }
 
-      // 2. Apply Immediately to DOM (Bypassing React Render)
-      transformRef.current = next;
-      if (wrapperRef.current) {
-        wrapperRef.current.style.transition = 'none';
-        wrapperRef.current.style.transform = `translate3d(${next.x}px, ${next.y}px, 0) scale(${next.scale})`;
-        wrapperRef.current.style.cursor = 'grabbing';
-      }
+      // 2. Apply Immediately to DOM and notify parent
+      applyTransform(next);
 
-      // 3. Notify Parent (Throttled)
-      if (onViewChange) {
-        if (!rafRef.current) {
-          rafRef.current = requestAnimationFrame(() => {
-            onViewChange();
-            rafRef.current = null;
-          });
-        }
-      }
-
-      // 4. Debounce Snap-Back / Sync State
+      // 3. Debounce Snap-Back / Sync State
       if (wheelTimeoutRef.current) clearTimeout(wheelTimeoutRef.current);
       if (snapTimeoutRef.current) clearTimeout(snapTimeoutRef.current);
+      wheelTimeoutRef.current = setTimeout(snapBack, 60); // Slightly increased debounce (60ms) to ensure momentum settles
+    };
 
-      wheelTimeoutRef.current = setTimeout(() => {
-        // Calculate Snap Targets
-        const current = transformRef.current;
-        let targetScale = current.scale;
-        
-        // Snap scale logic
-        if (targetScale < 0.5) targetScale = 0.5;
-        if (targetScale > 5) targetScale = 5;
-        
-        const finalBounds = getBounds(targetScale);
-        let targetX = current.x;
-        let targetY = current.y;
-        
-        // Clamp Pan
-        if (targetX < finalBounds.minX) targetX = finalBounds.minX;
-        if (targetX > finalBounds.maxX) targetX = finalBounds.maxX;
-        if (targetY < finalBounds.minY) targetY = finalBounds.minY;
-        if (targetY > finalBounds.maxY) targetY = finalBounds.maxY;
+    // Pinch zooms around the midpoint of the two fingers, which also pans as
+    // they move. Each update is computed from where the pinch started.
+    const touches = activeTouchesRef.current;
+    let pinch: { distance: number; midpoint: Point; start: { x: number; y: number; scale: number } } | null = null;
+
+    const getPair = () => {
+      const [a, b] = [...touches.values()];
+      const rect = container.getBoundingClientRect();
+      return {
+        distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+        // Relative to the container center, where the untransformed image is centered
+        midpoint: {
+          x: (a.x + b.x) / 2 - (rect.left + rect.width / 2),
+          y: (a.y + b.y) / 2 - (rect.top + rect.height / 2),
+        },
+      };
+    };
 
-        const snappedState = { x: targetX, y: targetY, scale: targetScale };
-        
-        // Check if we actually need to move (are we out of bounds?)
-        const isOutOfBounds = 
-          Math.abs(targetX - current.x) > 0.1 || 
-          Math.abs(targetY - current.y) > 0.1 || 
-          Math.abs(targetScale - current.scale) > 0.001;
-
-        if (isOutOfBounds && wrapperRef.current) {
-          // MANUAL ANIMATION STRATEGY
-          // 1. Enable transition on DOM (Faster spring - 0.6s)
-          // Using a gentler ease-out curve
-          wrapperRef.current.style.transition = 'transform 0.6s cubic-bezier(0.25, 1, 0.5, 1)';
-          
-          // 2. Force Reflow
-          // eslint-disable-next-line @typescript-eslint/no-unused-vars
-          const _ = wrapperRef.current.offsetHeight; 
-          
-          // 3. Set Target Transform
-          wrapperRef.current.style.transform = `translate3d(${targetX}px, ${targetY}px, 0) scale(${targetScale})`;
-          
-          // 4. Update Source of Truth
-          transformRef.current = snappedState;
-          
-          // 5. Protect Animation
-          isSnappingRef.current = true;
-
-          // 6. Wait for animation
-          snapTimeoutRef.current = setTimeout(() => {
-            isSnappingRef.current = false;
-            setIsPanning(false);
-            setTransform(snappedState);
-          }, 600); 
-        } else {
-          transformRef.current = current; 
-          setIsPanning(false);
-          setTransform(current);
-        }
-      }, 60); // Slightly increased debounce (60ms) to ensure momentum settles
+    // Pan past the edge stretches, approaching MAX_OVERSHOOT
+    const stretch = (value: number, min: number, max: number) => {
+      const rubberBand = (overshoot: number) => MAX_OVERSHOOT * (1 - 1 / (1 + overshoot / MAX_OVERSHOOT));
+      if (value > max) return max + rubberBand(value - max);
+      if (value < min) return min - rubberBand(min - value);
+      return value;
+    };
+
+    const startPinch = () => {
+      // A second finger turns whatever the first one started into a gesture
+      if (drawPointerRef.current?.type === 'touch') {
+        drawPointerRef.current = null;
+        setIsDrawing(false);
+        setDragStart(null);
+        dragEndRef.current = null;
+        brushPointsRef.current = [];
+        brushPressuresRef.current = [];
+        setEditDrag(null);
+        setEditPreview(null);
+      }
+      isSnappingRef.current = false;
+      if (snapTimeoutRef.current) clearTimeout(snapTimeoutRef.current);
+      if (wheelTimeoutRef.current) clearTimeout(wheelTimeoutRef.current);
+      pinch = { ...getPair(), start: transformRef.current };
+    };
+
+    const updatePinch = () => {
+      if (!pinch) return;
+      const { distance, midpoint } = getPair();
+      const { start } = pinch;
+      const scale = Math.min(maxScaleRef.current, Math.max(MIN_SCALE, start.scale * distance / pinch.distance));
+      const zoom = scale / start.scale;
+      const bounds = getBounds(scale);
+      applyTransform({
+        x: stretch(midpoint.x - zoom * (pinch.midpoint.x - start.x), bounds.minX, bounds.maxX),
+        y: stretch(midpoint.y - zoom * (pinch.midpoint.y - start.y), bounds.minY, bounds.maxY),
+        scale,
+      });
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      if (e.pointerType !== 'touch') return;
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touches.size >= 2) startPinch();
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      if (!touches.has(e.pointerId)) return;
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      updatePinch();
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+      if (!touches.delete(e.pointerId) || !pinch) return;
+      if (touches.size >= 2) {
+        // Carry on with the remaining fingers from where the view is now
+        pinch = { ...getPair(), start: transformRef.current };
+      } else {
+        pinch = null;
+        snapBack();
+      }
     };
 
     container.addEventListener('wheel', onWheel, { passive: false });
-    return () => container.removeEventListener('wheel', onWheel);
+    container.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('pointercancel', onPointerUp);
+    return () => {
+      container.removeEventListener('wheel', onWheel);
+      container.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('pointercancel', onPointerUp);
+    };
   }, [onViewChange]);
 
-  // Load and process image with size limits
-  const loadImage = useCallback((src: string | File) => {
-    const img = new Image();
-    
-    img.onload = () => {
-      let finalWidth = img.width;
-      let finalHeight = img.height;
-      const originalWidth = img.width;
-      const originalHeight = img.height;
-      
-      // Downscale if image exceeds maximum dimensions while preserving aspect ratio
-      if (finalWidth > MAX_CANVAS_DIMENSION || finalHeight > MAX_CANVAS_DIMENSION) {
-        const scale = Math.min(
-          MAX_CANVAS_DIMENSION / finalWidth,
-          MAX_CANVAS_DIMENSION / finalHeight
-        );
-        finalWidth = Math.floor(finalWidth * scale);
-        finalHeight = Math.floor(finalHeight * scale);
-        
-        console.log(`Downscaling image from ${originalWidth}x${originalHeight} to ${finalWidth}x${finalHeight}`);
-        
-        // Create a downscaled version using canvas
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = finalWidth;
-        tempCanvas.height = finalHeight;
-        const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: false });
-        
-        if (!tempCtx) {
-          console.error('Failed to get canvas context');
-          setOriginalImage(img); // Fallback to original
+  // Open an image: the pyramid worker decodes it, so even very large files
+  // load without blocking the page, and tiles are fetched as the view needs them
+  const loadImage = useCallback((src: string | Blob) => {
+    const token = ++loadTokenRef.current;
+
+    const blobPromise = src instanceof Blob
+      ? Promise.resolve(src)
+      : fetch(src).then(res => {
+          if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+          return res.blob();
+        });
+    blobPromise
+      .then(async blob => {
+        // The image's identity from its bytes lets the parent switch to the matching annotation document
+        const [imageId, pyramid] = await Promise.all([computeImageId(blob), createImagePyramid(blob)]);
+        const preview = await pyramid.getImage(PREVIEW_DIMENSION).catch(err => {
+          pyramid.dispose();
+          throw err;
+        });
+        if (token !== loadTokenRef.current) {
+          pyramid.dispose();
+          preview.close();
           return;
         }
-        
-        // Use high-quality image smoothing for downscaling
-        tempCtx.imageSmoothingEnabled = true;
-        tempCtx.imageSmoothingQuality = 'high';
-        
-        // Draw the image scaled down
-        tempCtx.drawImage(img, 0, 0, finalWidth, finalHeight);
-        
-        // Create new image from the downscaled canvas
-        tempCanvas.toBlob((blob) => {
-          if (!blob) {
-            console.error('Failed to create blob from canvas');
-            setOriginalImage(img); // Fallback to original
-            return;
-          }
-          
-          const downscaledImg = new Image();
-          downscaledImg.onload = () => {
-            console.log('Image loaded (downscaled):', downscaledImg.width, 'x', downscaledImg.height);
-            setOriginalImage(downscaledImg);
-          };
-          downscaledImg.onerror = () => {
-            console.error('Failed to load downscaled image, using original');
-            setOriginalImage(img); // Fallback to original
-          };
-          downscaledImg.src = URL.createObjectURL(blob);
-        }, 'image/png', 1.0); // High quality PNG
-      } else {
-        console.log('Image loaded:', img.width, 'x', img.height);
-        setOriginalImage(img);
+        console.log('Image loaded:', pyramid.size.width, 'x', pyramid.size.height, `(${pyramid.levelCount} levels)`);
+        setLoadedImage({ pyramid, preview });
+        onImageLoad(imageId, blob, pyramid.size);
+      })
+      .catch(err => {
+        console.error('Failed to load image:', err);
+        if (token === loadTokenRef.current) alert('Failed to load image. Please try a different file.');
+      });
+  }, [onImageLoad]);
+
+  // Release the previous image's workers and preview
+  useEffect(() => {
+    if (!loadedImage) return;
+    return () => {
+      loadedImage.pyramid.dispose();
+      loadedImage.preview.close();
+      const segmenter = segmenterRef.current;
+      if (segmenter?.image === loadedImage) {
+        segmenterRef.current = null;
+        segmenter.segmenter.dispose();
       }
     };
-    
-    img.onerror = (e) => {
-      console.error('Failed to load image:', e);
-      alert('Failed to load image. Please try a different file.');
-    };
-    
-    if (src instanceof File) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          img.src = e.target.result as string;
-        }
-      };
-      reader.onerror = () => {
-        alert('Failed to read file. Please try a different image.');
-      };
-      reader.readAsDataURL(src);
-    } else {
-      img.src = src;
-    }
-  }, []);
+  }, [loadedImage]);
 
-  // Load default image on mount
+  // The wand and edge snapping share a worker, started on first use
+  const getSegmenter = useCallback(() => {
+    if (!loadedImage) return null;
+    if (segmenterRef.current?.image !== loadedImage) {
+      segmenterRef.current = { image: loadedImage, segmenter: createSegmenter() };
+    }
+    return segmenterRef.current;
+  }, [loadedImage]);
+
+  // Runs a segmentation job on `bounds` (source pixels), sampled as finely as
+  // the view shows them; the result is dropped if the image changes meanwhile
+  const segment = useCallback(<T,>(
+    bounds: Bounds,
+    job: (segmenter: Segmenter, area: SegmentArea) => Promise<T>,
+    onResult: (result: T, area: SegmentArea) => void
+  ) => {
+    const entry = getSegmenter();
+    const canvas = canvasRef.current;
+    if (!entry || !entry.image || !canvas) return;
+    const sourcePerPixel = getSourcePixelRatio(canvas, sourceScale) / window.devicePixelRatio;
+    setSegmenting(true);
+    getSegmentArea(entry.image.pyramid, bounds, sourcePerPixel)
+      .then(async area => {
+        const result = await job(entry.segmenter, area);
+        if (segmenterRef.current === entry) onResult(result, area);
+      })
+      .catch(err => {
+        console.error('Failed to find region:', err);
+        if (segmenterRef.current === entry) alert('Could not find a region there. Please try again.');
+      })
+      .finally(() => setSegmenting(false));
+  }, [getSegmenter, sourceScale]);
+
+  // Load the image chosen by the parent (restored, linked or default)
   useEffect(() => {
-    loadImage('/annotation/ChatGPT Image Nov 24, 2025, 03_40_33 PM.jpeg');
-  }, [loadImage]);
+    if (image) loadImage(image);
+  }, [image, loadImage]);
 
   // Handle file upload
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -430,8 +744,7 @@ const AnnotationEditor = ({
       return;
     }
     
-    // Clear existing annotations when loading new image
-    onClearAnnotations();
+    // Annotations are kept per image, so the current review stays saved
     loadImage(file);
     
     // Reset file input
@@ -440,56 +753,23 @@ const AnnotationEditor = ({
     }
   };
 
-  const drawStroke = useCallback((ctx: CanvasRenderingContext2D, stroke: BrushStroke, color: string) => {
-    if (stroke.points.length < 2) return;
-    
-    // Ensure consistent rendering settings
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = 'high';
-    
-    ctx.beginPath();
-    ctx.lineCap = "round";
-    ctx.lineJoin = "round";
-    ctx.lineWidth = stroke.brushSize;
-    ctx.strokeStyle = color;
-    ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-    for (let i = 1; i < stroke.points.length; i++) {
-      ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
-    }
-    ctx.stroke();
-  }, []);
-
-  const drawHighlight = useCallback((ctx: CanvasRenderingContext2D, highlight: Highlight, opacity?: number) => {
-    if (highlight.type === 'rect') {
-      const alpha = opacity ?? 0.25;
-      const color = highlight.color.replace(/[\d.]+\)$/g, `${alpha})`);
-      ctx.fillStyle = color;
-      ctx.fillRect(highlight.x, highlight.y, highlight.width, highlight.height);
-      ctx.strokeStyle = highlight.color.replace(/[\d.]+\)$/g, `${Math.min(alpha + 0.3, 1)})`);
-      ctx.lineWidth = 2;
-      ctx.strokeRect(highlight.x, highlight.y, highlight.width, highlight.height);
-    } else if (highlight.type === 'brush') {
-      const alpha = opacity ?? highlight.opacity;
-      const color = highlight.color.replace(/[\d.]+\)$/g, `${alpha})`);
-      for (const stroke of highlight.strokes) {
-        drawStroke(ctx, stroke, color);
-      }
-    }
-  }, [drawStroke]);
+  // The view is a stack of layers over the same area: a preview of the whole
+  // image, the image tiles for the current zoom, the saved annotations, and a
+  // live layer for whatever is being drawn or dragged. Pointer moves only
+  // repaint the live layer.
 
-  const redrawCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
+  // Size every layer to the image and fit it to the container (contain behavior)
+  const layoutLayers = useCallback(() => {
     const container = containerRef.current;
-    if (!canvas || !originalImage || !container) return;
-    
-    // Keep canvas at original image resolution
-    canvas.width = originalImage.width;
-    canvas.height = originalImage.height;
+    const imageCanvas = imageCanvasRef.current;
+    const overlays = [annotationCanvasRef.current, canvasRef.current];
+    if (!loadedImage || !container) return;
+    const { pyramid, preview } = loadedImage;
     
     // Scale to fit container (contain behavior)
     const containerWidth = container.clientWidth;
     const containerHeight = container.clientHeight;
-    const imgAspect = originalImage.width / originalImage.height;
+    const imgAspect = pyramid.size.width / pyramid.size.height;
     const containerAspect = containerWidth / containerHeight;
     
     let displayWidth, displayHeight;
@@ -503,9 +783,27 @@ const AnnotationEditor = ({
       displayWidth = containerHeight * imgAspect;
     }
     
-    canvas.style.width = `${displayWidth}px`;
-    canvas.style.height = `${displayHeight}px`;
-    
+    // Overlays are kept at the image's resolution up to MAX_CANVAS_DIMENSION.
+    // Assigning the size clears a canvas, so it is only done when the image changes.
+    const sizeLayer = (canvas: HTMLCanvasElement | null, size: ImageSize) => {
+      if (!canvas) return;
+      if (canvas.width !== size.width) canvas.width = size.width;
+      if (canvas.height !== size.height) canvas.height = size.height;
+      canvas.style.width = `${displayWidth}px`;
+      canvas.style.height = `${displayHeight}px`;
+    };
+    sizeLayer(imageCanvas, preview);
+    const canvasSize = getCanvasSize(pyramid.size);
+    overlays.forEach(canvas => sizeLayer(canvas, canvasSize));
+    maxScaleRef.current = Math.max(MIN_MAX_SCALE, (MAX_PIXEL_ZOOM * displayWidth) / pyramid.size.width);
+  }, [loadedImage]);
+
+  // Image preview: painted once per image
+  useEffect(() => {
+    const canvas = imageCanvasRef.current;
+    if (!canvas || !loadedImage) return;
+    layoutLayers();
+
     const ctx = canvas.getContext("2d", { 
       alpha: true,
       desynchronized: false,
@@ -521,42 +819,124 @@ const AnnotationEditor = ({
     ctx.clearRect(0, 0, canvas.width, canvas.height);
     
     // Draw image at full canvas size (ensures no cropping)
-    ctx.drawImage(originalImage, 0, 0, canvas.width, canvas.height);
+    ctx.drawImage(loadedImage.preview, 0, 0, canvas.width, canvas.height);
+  }, [loadedImage, layoutLayers]);
 
-    // Draw saved annotations (only non-completed, and only if showHighlights is on)
-    if (showHighlights) {
-      annotations.filter(a => !a.completed).forEach(ann => {
+  // Image tiles: created per image, updated as the view moves
+  useEffect(() => {
+    const container = tileContainerRef.current;
+    if (!container || !loadedImage) return;
+    // The preview stays under tiles that fail, so the image is still shown, only softer
+    const layer = createTileLayer(container, loadedImage.pyramid, () => {
+      alert('Parts of this image could not be loaded at full detail.');
+    });
+    tileLayerRef.current = layer;
+    return () => {
+      layer.dispose();
+      tileLayerRef.current = null;
+    };
+  }, [loadedImage]);
+
+  const updateTiles = useCallback(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container || !tileLayerRef.current) return;
+    const sourcePerPixel = getSourcePixelRatio(canvas, sourceScale) / window.devicePixelRatio;
+    tileLayerRef.current.update(getVisibleBounds(canvas, container, sourceScale, 0), sourcePerPixel);
+  }, [sourceScale]);
+
+  // Annotation layer: saved annotations and the one waiting for its note
+  const drawAnnotationLayer = useCallback(() => {
+    const canvas = annotationCanvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container || !loadedImage) return;
+    const ctx = getLayerContext(canvas, sourceScale);
+    if (!ctx) return;
+
+    // Image pixels per screen pixel, for chrome and pins that keep a fixed screen size
+    const ratio = getSourcePixelRatio(canvas, sourceScale);
+
+    // Skip annotations well outside the view
+    const visibleIds = getSpatialIndex().query(getVisibleBounds(canvas, container, sourceScale, 1));
+    const visible = annotations.filter(a => visibleIds.has(a.id));
+
+    // Closed annotations sit underneath as faint ghosts in their status's outline
+    if (showHighlights && showClosed) {
+      visible.filter(a => isClosed(a.status)).forEach(ann => {
         const isSelected = selectedAnnotationId === ann.id;
-        
-        // For rect: use stored color opacity, for brush: use stored opacity
-        let opacity: number;
-        if (ann.highlight.type === 'brush') {
-          opacity = isSelected ? Math.min(ann.highlight.opacity + 0.2, 1) : ann.highlight.opacity;
-        } else {
-          opacity = isSelected ? 0.4 : 0.25;
-        }
-        
-        // Dim non-selected when something is selected
-        if (selectedAnnotationId && !isSelected) {
-          opacity = 0.08;
-        }
+        drawHighlight(ctx, ann.highlight, isSelected ? 0.3 : 0.1, ratio);
+        drawStatusOutline(ctx, ann.status, ann.highlight, ratio, isSelected ? 0.9 : 0.5);
+      });
+    }
 
-        drawHighlight(ctx, ann.highlight, opacity);
+    // Draw saved annotations (only open ones, and only if showHighlights is on),
+    // outlined when in progress or waiting for review.
+    // The one being moved or resized is drawn on the live layer instead.
+    if (showHighlights) {
+      visible.filter(a => !isClosed(a.status) && a.id !== editDrag?.id).forEach(ann => {
+        const highlight = erasePreview?.id === ann.id ? erasePreview.highlight : ann.highlight;
+        const opacity = getAnnotationOpacity(highlight, ann.id, selectedAnnotationId, matchingIds);
+        drawHighlight(ctx, highlight, opacity, ratio);
+        drawStatusOutline(ctx, ann.status, highlight, ratio, Math.min(1, opacity * 3));
       });
     }
 
     // Draw pending highlight
     if (pendingHighlight) {
-      drawHighlight(ctx, pendingHighlight, 0.35);
+      drawHighlight(ctx, pendingHighlight, 0.35, ratio);
     }
 
     // Draw pending strokes (multi-stroke brush mode)
     if (pendingStrokes.length > 0 && pendingColor) {
-      const color = pendingColor.replace(/[\d.]+\)$/g, `${brushOpacity})`);
+      const color = pendingColor.replace(/[\d.]+\)$/g, `${extendBrush?.opacity ?? brushOpacity})`);
       for (const stroke of pendingStrokes) {
         drawStroke(ctx, stroke, color);
       }
     }
+  }, [loadedImage, sourceScale, annotations, getSpatialIndex, selectedAnnotationId, editDrag, erasePreview, extendBrush, pendingHighlight, pendingStrokes, pendingColor, brushOpacity, showHighlights, showClosed, matchingIds]);
+
+  // Live layer: selection chrome and in-progress shapes. Brush and drag
+  // positions are read from refs, so moves repaint without re-rendering.
+  const drawLiveLayer = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !sourceSize) return;
+    const ctx = getLayerContext(canvas, sourceScale);
+    if (!ctx) return;
+
+    const ratio = getSourcePixelRatio(canvas, sourceScale);
+
+    // The annotation being moved or resized, then its selection chrome
+    const selected = activeTool === 'move' && showHighlights
+      ? annotations.find(a => a.id === selectedAnnotationId && !isClosed(a.status))
+      : undefined;
+    if (selected) {
+      const highlight = editPreview?.id === selected.id ? editPreview.highlight : selected.highlight;
+      if (editDrag?.id === selected.id) {
+        drawHighlight(ctx, highlight, getAnnotationOpacity(highlight, selected.id, selectedAnnotationId, null), ratio);
+      }
+
+      const bounds = getHighlightBounds(highlight, ratio);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.lineWidth = 1.5 * ratio;
+      ctx.setLineDash([6 * ratio, 4 * ratio]);
+      ctx.strokeRect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+      ctx.setLineDash([]);
+
+      if (isBoxHighlight(highlight)) {
+        const size = HANDLE_SCREEN_SIZE * ratio;
+        for (const handle of RESIZE_HANDLES) {
+          const pos = getHandlePosition(highlight, handle);
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(pos.x - size / 2, pos.y - size / 2, size, size);
+          ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+          ctx.lineWidth = ratio;
+          ctx.strokeRect(pos.x - size / 2, pos.y - size / 2, size, size);
+        }
+      }
+    }
+
+    const dragEnd = dragEndRef.current;
+    const brushPoints = brushPointsRef.current;
 
     // Draw current drag preview (select tool - rectangle)
     if (activeTool === 'select' && isDrawing && dragStart && dragEnd) {
@@ -568,43 +948,94 @@ const AnnotationEditor = ({
       ctx.fillStyle = 'rgba(255, 200, 0, 0.25)';
       ctx.fillRect(x, y, w, h);
       ctx.strokeStyle = 'rgba(255, 200, 0, 0.6)';
-      ctx.lineWidth = 2;
-      ctx.setLineDash([5, 5]);
+      ctx.lineWidth = 2 * ratio;
+      ctx.setLineDash([5 * ratio, 5 * ratio]);
       ctx.strokeRect(x, y, w, h);
       ctx.setLineDash([]);
     }
 
+    // Ellipse and arrow drag previews
+    if ((activeTool === 'ellipse' || activeTool === 'arrow') && isDrawing && dragStart && dragEnd) {
+      const preview = shapeFromDrag(activeTool, dragStart, dragEnd, 'rgba(255, 200, 0, 1)', getArrowLineWidth(sourceSize));
+      if (preview) drawHighlight(ctx, preview, 0.25, ratio);
+    }
+
+    // Lasso outline while dragging, closed back to the start
+    if (activeTool === 'lasso' && isDrawing && brushPoints.length > 1) {
+      tracePolygon(ctx, brushPoints);
+      ctx.fillStyle = 'rgba(255, 200, 0, 0.15)';
+      ctx.fill();
+      ctx.strokeStyle = 'rgba(255, 200, 0, 0.8)';
+      ctx.lineWidth = 2 * ratio;
+      ctx.setLineDash([5 * ratio, 5 * ratio]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    // Polygon in progress: placed edges, a rubber band to the cursor, and vertex dots
+    if (activeTool === 'polygon' && polygonPoints.length > 0) {
+      tracePolygon(ctx, polygonCursor ? [...polygonPoints, polygonCursor] : polygonPoints, false);
+      ctx.strokeStyle = 'rgba(255, 200, 0, 0.8)';
+      ctx.lineWidth = 2 * ratio;
+      ctx.lineJoin = 'round';
+      ctx.stroke();
+      polygonPoints.forEach((p, i) => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, (i === 0 ? 5 : 3) * ratio, 0, Math.PI * 2);
+        ctx.fillStyle = i === 0 ? '#ffffff' : 'rgba(255, 200, 0, 1)';
+        ctx.fill();
+      });
+    }
+
     // Draw current brush stroke preview
-    if (activeTool === 'brush' && brushPoints.length > 1) {
+    if (activeTool === 'brush' && isDrawing && brushPoints.length > 1) {
+      const pressures = drawPointerRef.current?.type === 'pen' ? brushPressuresRef.current : undefined;
+      drawStroke(ctx, { points: brushPoints, brushSize: strokeSizeRef.current, pressures }, `rgba(255, 200, 0, ${brushOpacity})`);
+    }
+
+    // Eraser outline, light over dark so it shows on any image
+    const eraserPos = eraserPosRef.current;
+    if (activeTool === 'eraser' && eraserPos) {
       ctx.beginPath();
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-      ctx.lineWidth = brushSize;
-      ctx.strokeStyle = `rgba(255, 200, 0, ${brushOpacity})`;
-      ctx.moveTo(brushPoints[0].x, brushPoints[0].y);
-      for (let i = 1; i < brushPoints.length; i++) {
-        ctx.lineTo(brushPoints[i].x, brushPoints[i].y);
-      }
+      ctx.arc(eraserPos.x, eraserPos.y, (brushSize * ratio) / 2, 0, Math.PI * 2);
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.lineWidth = 3 * ratio;
+      ctx.stroke();
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 1.5 * ratio;
       ctx.stroke();
     }
+  }, [sourceSize, sourceScale, annotations, selectedAnnotationId, editDrag, editPreview, isDrawing, dragStart, activeTool, polygonPoints, polygonCursor, brushSize, brushOpacity, showHighlights]);
 
-  }, [originalImage, annotations, selectedAnnotationId, pendingHighlight, pendingStrokes, pendingColor, isDrawing, dragStart, dragEnd, activeTool, brushPoints, brushSize, brushOpacity, drawHighlight, drawStroke, showHighlights]);
+  // Zoom changes the pixel ratio, so pins and handles are redrawn at their screen
+  // size; panning changes which annotations are culled
+  useEffect(() => {
+    drawAnnotationLayer();
+  }, [drawAnnotationLayer, transform]);
 
   useEffect(() => {
-    redrawCanvas();
-  }, [redrawCanvas, panelOpen]);
+    drawLiveLayer();
+  }, [drawLiveLayer, transform.scale]);
 
-  // Resize observer for container
+  // Tiles for the settled view; during a gesture the current ones are scaled
+  useEffect(() => {
+    updateTiles();
+  }, [updateTiles, loadedImage, transform]);
+
+  // Refit when the container resizes (window, or the side panel opening)
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
     
     const observer = new ResizeObserver(() => {
-      redrawCanvas();
+      layoutLayers();
+      drawAnnotationLayer();
+      drawLiveLayer();
+      updateTiles();
     });
     observer.observe(container);
     return () => observer.disconnect();
-  }, [redrawCanvas]);
+  }, [layoutLayers, drawAnnotationLayer, drawLiveLayer, updateTiles, panelOpen]);
 
   // Focus input when shown
   useEffect(() => {
@@ -622,33 +1053,76 @@ const AnnotationEditor = ({
       if (e.key === ']') setBrushSize(s => Math.min(100, s + 5));
       if (e.key === 'b' || e.key === 'B') {
         if (activeTool === 'brush') {
-          setBrushSettingsVisible(prev => !prev);
+          setToolSettingsVisible(prev => !prev);
         } else {
           setActiveTool('brush');
-          setBrushSettingsVisible(true);
+          setToolSettingsVisible(true);
+        }
+      }
+      if ((e.key === 'x' || e.key === 'X') && !e.ctrlKey && !e.metaKey) {
+        if (activeTool === 'eraser') {
+          setToolSettingsVisible(prev => !prev);
+        } else {
+          setActiveTool('eraser');
+          setToolSettingsVisible(true);
+        }
+      }
+      if ((e.key === 'w' || e.key === 'W') && !e.ctrlKey && !e.metaKey && !extendBrush) {
+        if (activeTool === 'wand') {
+          setToolSettingsVisible(prev => !prev);
+        } else {
+          setActiveTool('wand');
+          setToolSettingsVisible(true);
         }
       }
       if (e.key === 's' || e.key === 'S') {
         setActiveTool('select');
-        setBrushSettingsVisible(false);
+        setToolSettingsVisible(false);
+      }
+      if (e.key === 'v' || e.key === 'V') {
+        setActiveTool('move');
+        setToolSettingsVisible(false);
+      }
+      const shapeTools: Record<string, Tool> = { e: 'ellipse', a: 'arrow', p: 'polygon', l: 'lasso', m: 'pin' };
+      const shapeTool = e.ctrlKey || e.metaKey || e.altKey ? undefined : shapeTools[e.key.toLowerCase()];
+      if (shapeTool && !extendBrush) {
+        setActiveTool(shapeTool);
+        setToolSettingsVisible(false);
+      }
+
+      // Move tool: delete or nudge the selected annotation
+      if (activeTool !== 'move' || !selectedAnnotationId || showInput) return;
+      const selected = annotations.find(a => a.id === selectedAnnotationId && !isClosed(a.status));
+      if (!selected) return;
+
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        onDeleteAnnotation(selected.id);
+        return;
+      }
+
+      const step = e.shiftKey ? 10 : 1;
+      const nudges: Record<string, Point> = {
+        ArrowLeft: { x: -step, y: 0 },
+        ArrowRight: { x: step, y: 0 },
+        ArrowUp: { x: 0, y: -step },
+        ArrowDown: { x: 0, y: step },
+      };
+      const nudge = nudges[e.key];
+      if (nudge) {
+        e.preventDefault();
+        onUpdateAnnotation(selected.id, { highlight: translateHighlight(selected.highlight, nudge.x, nudge.y) });
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [activeTool]);
+  }, [activeTool, annotations, selectedAnnotationId, showInput, extendBrush, onDeleteAnnotation, onUpdateAnnotation]);
 
-  const getCanvasPos = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current!;
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    
-    return {
-      x: (e.clientX - rect.left) * scaleX,
-      y: (e.clientY - rect.top) * scaleY,
-    };
-  };
+  const getCanvasPos = (e: { clientX: number; clientY: number }) => getSourcePos(e, canvasRef.current!, sourceScale);
+
+  // The brush size is set in screen pixels, so it paints the same width at any zoom and on any size of image
+  const getStrokeSize = () => brushSize * getSourcePixelRatio(canvasRef.current!, sourceScale);
 
   const getScreenPos = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!containerRef.current) return { x: 0, y: 0 };
@@ -660,24 +1134,24 @@ const AnnotationEditor = ({
   };
 
   const findAnnotationAtPoint = (canvasPos: Point): Annotation | null => {
-    // Check annotations in reverse order (top-most first)
-    const activeAnnotations = annotations.filter(a => !a.completed).reverse();
+    // Check annotations in reverse order (top-most first); ghosts come last
+    const activeAnnotations = annotations.filter(a => !isClosed(a.status)).reverse();
+    const candidates = showClosed
+      ? [...activeAnnotations, ...annotations.filter(a => isClosed(a.status)).reverse()]
+      : activeAnnotations;
     
-    for (const ann of activeAnnotations) {
-      if (ann.highlight.type === 'rect') {
-        if (isPointInRect(canvasPos, ann.highlight)) {
-          return ann;
-        }
-      } else if (ann.highlight.type === 'brush') {
-        // Check if click is near any stroke path
-        for (const stroke of ann.highlight.strokes) {
-          if (isPointNearStroke(canvasPos, stroke)) {
-            return ann;
-          }
-        }
-      }
-    }
-    return null;
+    const hits = getSpatialIndex().hitTest(canvasPos, canvasRef.current ? getSourcePixelRatio(canvasRef.current, sourceScale) : 1);
+    return candidates.find(ann => hits.has(ann.id)) ?? null;
+  };
+
+  // Resize handle of the selected rect or ellipse under a point (move tool only)
+  const findSelectedHandle = (canvasPos: Point): { annotation: Annotation; handle: ResizeHandle } | null => {
+    if (activeTool !== 'move' || !canvasRef.current) return null;
+    const selected = annotations.find(a => a.id === selectedAnnotationId && !isClosed(a.status));
+    if (!selected || !isBoxHighlight(selected.highlight)) return null;
+    const radius = HANDLE_SCREEN_SIZE * getSourcePixelRatio(canvasRef.current, sourceScale);
+    const handle = findHandleAtPoint(selected.highlight, canvasPos, radius);
+    return handle ? { annotation: selected, handle } : null;
   };
 
   // Constrain popover position to stay within container bounds
@@ -715,38 +1189,112 @@ const AnnotationEditor = ({
     return { x: constrainedX, y: constrainedY };
   };
 
-  // Global mouse handlers for drawing (to handle dragging outside canvas)
+  // Erase along a->b with an eraser the size of the brush. Pending strokes change
+  // right away, each erase one step of their undo; the last paint of a saved
+  // annotation stays, since an annotation needs at least one stroke (delete it
+  // to remove it).
+  const eraseAlong = useCallback((from: Point, to: Point) => {
+    const radius = strokeSizeRef.current / 2;
+    setStrokeDraft(prev => {
+      const strokes = eraseStrokes(prev.strokes, from, to, radius);
+      if (strokes === prev.strokes) return prev;
+      if (!prev.erasingFrom) return { ...prev, strokes };
+      return { strokes, past: [...prev.past, prev.erasingFrom], future: [], erasingFrom: null };
+    });
+    setErasePreview(prev => {
+      if (!prev) return prev;
+      const strokes = eraseStrokes(prev.highlight.strokes, from, to, radius);
+      if (strokes === prev.highlight.strokes || strokes.length === 0) return prev;
+      return { ...prev, highlight: { ...prev.highlight, strokes } };
+    });
+  }, []);
+
+  // Global pointer handlers for drawing (to handle dragging outside canvas)
   useEffect(() => {
     if (!isDrawing) return;
 
-    const handleWindowMouseMove = (e: MouseEvent) => {
+    // Only the pointer that started the drag draws, so a resting palm or finger doesn't
+    const isDrawPointer = (e: PointerEvent) => e.pointerId === drawPointerRef.current?.id;
+
+    // Moves only touch the refs; the live layer catches up once per frame
+    const scheduleLiveDraw = () => {
+      if (liveFrameRef.current !== null) return;
+      liveFrameRef.current = requestAnimationFrame(() => {
+        liveFrameRef.current = null;
+        drawLiveLayer();
+      });
+    };
+
+    const clearLiveDrag = () => {
+      dragEndRef.current = null;
+      brushPointsRef.current = [];
+      brushPressuresRef.current = [];
+    };
+
+    const toCanvasPos = (e: PointerEvent, canvas: HTMLCanvasElement) => {
       // We need to manually calculate canvas position since the event is on window
-      if (!canvasRef.current) return;
-      
-      const canvas = canvasRef.current;
       const rect = canvas.getBoundingClientRect();
-      const scaleX = canvas.width / rect.width;
-      const scaleY = canvas.height / rect.height;
+      const width = canvas.width * sourceScale;
+      const height = canvas.height * sourceScale;
       
       // Clamp position to canvas bounds
       const rawX = e.clientX - rect.left;
       const rawY = e.clientY - rect.top;
       
       // Allow dragging slightly outside, but clamp for drawing data
-      const x = Math.max(0, Math.min(canvas.width, rawX * scaleX));
-      const y = Math.max(0, Math.min(canvas.height, rawY * scaleY));
+      const x = Math.max(0, Math.min(width, (rawX * width) / rect.width));
+      const y = Math.max(0, Math.min(height, (rawY * height) / rect.height));
       
-      const pos = { x, y };
+      return { x, y };
+    };
 
-      if (activeTool === 'select' && dragStart) {
-        setDragEnd(pos);
-      } else if (activeTool === 'brush') {
-        setBrushPoints(prev => [...prev, pos]);
+    const handleWindowPointerMove = (e: PointerEvent) => {
+      const canvas = canvasRef.current;
+      if (!canvas || !isDrawPointer(e)) return;
+
+      if (isDragTool(activeTool) && dragStart) {
+        dragEndRef.current = toCanvasPos(e, canvas);
+      } else if (activeTool === 'eraser') {
+        const pos = toCanvasPos(e, canvas);
+        eraseAlong(eraserPosRef.current ?? pos, pos);
+        eraserPosRef.current = pos;
+      } else if (activeTool === 'brush' || activeTool === 'lasso') {
+        // Coalesced events keep the full sampling rate of fast pen strokes
+        const coalesced = e.getCoalescedEvents?.() ?? [];
+        for (const sample of coalesced.length > 0 ? coalesced : [e]) {
+          brushPointsRef.current.push(toCanvasPos(sample, canvas));
+          brushPressuresRef.current.push(sample.pressure);
+        }
       }
+      scheduleLiveDraw();
+    };
+
+    const handleWindowPointerCancel = (e: PointerEvent) => {
+      if (!isDrawPointer(e)) return;
+      drawPointerRef.current = null;
+      clearLiveDrag();
+      setIsDrawing(false);
+      setDragStart(null);
+      setErasePreview(null);
     };
 
-    const handleWindowMouseUp = (e: MouseEvent) => {
+    const handleWindowPointerUp = (e: PointerEvent) => {
+      if (!isDrawPointer(e)) return;
+      const isPen = drawPointerRef.current?.type === 'pen';
+      const dragEnd = dragEndRef.current;
+      const brushPoints = brushPointsRef.current;
+      const brushPressures = brushPressuresRef.current;
+      drawPointerRef.current = null;
+      clearLiveDrag();
       setIsDrawing(false);
+
+      if (activeTool === 'eraser') {
+        if (erasePreview && erasePreview.highlight !== erasePreview.original) {
+          onUpdateAnnotation(erasePreview.id, { highlight: erasePreview.highlight });
+        }
+        setErasePreview(null);
+        return;
+      }
       
       // Calculate screen pos for popover
       let screenPos = { x: 0, y: 0 };
@@ -758,31 +1306,44 @@ const AnnotationEditor = ({
         };
       }
 
-      const nextColor = pendingColor || annotationColors[annotations.length % annotationColors.length];
+      const nextColor = pendingColor || ANNOTATION_COLORS[annotations.length % ANNOTATION_COLORS.length];
+      const tolerance = SIMPLIFY_TOLERANCE * (canvasRef.current ? getSourcePixelRatio(canvasRef.current, sourceScale) : 1);
 
-      if (activeTool === 'select' && dragStart && dragEnd) {
-        const x = Math.min(dragStart.x, dragEnd.x);
-        const y = Math.min(dragStart.y, dragEnd.y);
-        const w = Math.abs(dragEnd.x - dragStart.x);
-        const h = Math.abs(dragEnd.y - dragStart.y);
-        
-        if (w > 10 && h > 10) {
-          const highlight: RectHighlight = {
-            type: 'rect',
-            x, y, width: w, height: h,
-            color: nextColor,
-          };
+      if (isDragTool(activeTool) && dragStart && dragEnd && sourceSize) {
+        const highlight = shapeFromDrag(activeTool, dragStart, dragEnd, nextColor, getArrowLineWidth(sourceSize));
+        if (highlight) {
           setPendingHighlight(highlight);
           setShowInput(true);
           setInputPosition(constrainPopoverPosition(screenPos));
         }
+      } else if (activeTool === 'lasso' && brushPoints.length > 2) {
+        const points = simplifyPoints(brushPoints, tolerance);
+        const { minX, minY, maxX, maxY } = getHighlightBounds({ type: 'lasso', points, color: nextColor });
+        if (points.length > 2 && (maxX - minX > MIN_SHAPE_SIZE || maxY - minY > MIN_SHAPE_SIZE)) {
+          const lasso: Highlight = { type: 'lasso', points, color: nextColor };
+          setPendingHighlight(lasso);
+          setShowInput(true);
+          setInputPosition(constrainPopoverPosition(screenPos));
+          // The drawn outline shows until the snapped one replaces it
+          if (snapLasso && canvasRef.current) {
+            const radius = SNAP_RADIUS * getSourcePixelRatio(canvasRef.current, sourceScale);
+            const around = { minX: minX - radius, minY: minY - radius, maxX: maxX + radius, maxY: maxY + radius };
+            segment(around, (s, area) => s.snapToEdges(area, points, radius), snapped => {
+              const snappedPoints = simplifyPoints(snapped, tolerance);
+              if (snappedPoints.length < 3) return;
+              setPendingHighlight(prev => (prev === lasso ? { ...lasso, points: snappedPoints } : prev));
+            });
+          }
+        }
       } else if (activeTool === 'brush' && brushPoints.length > 2) {
         // Add stroke to pending strokes
-        const newStroke: BrushStroke = {
+        const newStroke: BrushStroke = simplifyStroke({
           points: brushPoints,
-          brushSize: brushSize,
-        };
-        setPendingStrokes(prev => [...prev, newStroke]);
+          brushSize: strokeSizeRef.current,
+          // Mouse and touch report a constant pressure, so only pens vary the width
+          ...(isPen && { pressures: brushPressures }),
+        }, tolerance);
+        setStrokeDraft(prev => ({ strokes: [...prev.strokes, newStroke], past: [...prev.past, prev.strokes], future: [], erasingFrom: null }));
         
         // Only open/position input on first stroke
         if (!showInput) {
@@ -797,29 +1358,180 @@ const AnnotationEditor = ({
       }
       
       setDragStart(null);
-      setDragEnd(null);
-      setBrushPoints([]);
     };
 
-    window.addEventListener('mousemove', handleWindowMouseMove);
-    window.addEventListener('mouseup', handleWindowMouseUp);
+    window.addEventListener('pointermove', handleWindowPointerMove);
+    window.addEventListener('pointerup', handleWindowPointerUp);
+    window.addEventListener('pointercancel', handleWindowPointerCancel);
     
     return () => {
-      window.removeEventListener('mousemove', handleWindowMouseMove);
-      window.removeEventListener('mouseup', handleWindowMouseUp);
+      window.removeEventListener('pointermove', handleWindowPointerMove);
+      window.removeEventListener('pointerup', handleWindowPointerUp);
+      window.removeEventListener('pointercancel', handleWindowPointerCancel);
+      if (liveFrameRef.current !== null) cancelAnimationFrame(liveFrameRef.current);
+      liveFrameRef.current = null;
+    };
+  }, [isDrawing, activeTool, dragStart, pendingColor, annotations.length, brushSize, showInput, drawLiveLayer, sourceSize, sourceScale, eraseAlong, erasePreview, onUpdateAnnotation, snapLasso, segment]);
+
+  // Global pointer handlers for moving/resizing an existing annotation
+  useEffect(() => {
+    if (!editDrag) return;
+
+    const handleWindowPointerMove = (e: PointerEvent) => {
+      if (!canvasRef.current || e.pointerId !== drawPointerRef.current?.id) return;
+      const pos = getSourcePos(e, canvasRef.current, sourceScale);
+      const dx = pos.x - editDrag.start.x;
+      const dy = pos.y - editDrag.start.y;
+      const highlight = editDrag.handle && isBoxHighlight(editDrag.original)
+        ? resizeBox(editDrag.original, editDrag.handle, dx, dy)
+        : translateHighlight(editDrag.original, dx, dy);
+      setEditPreview({ id: editDrag.id, highlight });
     };
-  }, [isDrawing, activeTool, dragStart, dragEnd, brushPoints, pendingColor, annotations.length, brushSize, showInput]);
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const handleWindowPointerUp = (e: PointerEvent) => {
+      if (e.pointerId !== drawPointerRef.current?.id) return;
+      drawPointerRef.current = null;
+      if (e.type === 'pointerup' && editPreview && editPreview.id === editDrag.id) {
+        onUpdateAnnotation(editDrag.id, { highlight: editPreview.highlight });
+      }
+      setEditDrag(null);
+      setEditPreview(null);
+    };
+
+    window.addEventListener('pointermove', handleWindowPointerMove);
+    window.addEventListener('pointerup', handleWindowPointerUp);
+    window.addEventListener('pointercancel', handleWindowPointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handleWindowPointerMove);
+      window.removeEventListener('pointerup', handleWindowPointerUp);
+      window.removeEventListener('pointercancel', handleWindowPointerUp);
+    };
+  }, [editDrag, editPreview, onUpdateAnnotation, sourceScale]);
+
+  // Move tool cursor feedback over handles and annotations; polygon rubber band
+  const handleCanvasPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (activeTool === 'polygon' && polygonPoints.length > 0) {
+      setPolygonCursor(getCanvasPos(e));
+      return;
+    }
+    if (activeTool === 'eraser') {
+      if (!isDrawing) {
+        eraserPosRef.current = getCanvasPos(e);
+        drawLiveLayer();
+      }
+      return;
+    }
+    if (activeTool !== 'move' || editDrag) return;
+    const canvasPos = getCanvasPos(e);
+    const hit = findSelectedHandle(canvasPos);
+    const target = hit ? null : findAnnotationAtPoint(canvasPos);
+    const cursor = hit ? HANDLE_CURSORS[hit.handle] : target ? (isClosed(target.status) ? 'pointer' : 'move') : null;
+    if (cursor !== hoverCursor) setHoverCursor(cursor);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
     if (!canvasRef.current) return;
+    // Two fingers pan and zoom (see the gesture handlers above); only one pointer draws
+    if (activeTouchesRef.current.size > 1 || isDrawing || editDrag) return;
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+
+    // Move tool: select, then drag to move or pull a handle to resize
+    if (activeTool === 'move') {
+      if (showInput) return;
+      const canvasPos = getCanvasPos(e);
+      const hit = findSelectedHandle(canvasPos);
+      const target = hit?.annotation ?? findAnnotationAtPoint(canvasPos);
+      onSelectAnnotation(target?.id ?? null);
+      // Closed annotations can be selected but not moved
+      if (target && !isClosed(target.status)) {
+        drawPointerRef.current = { id: e.pointerId, type: e.pointerType };
+        setEditDrag({
+          id: target.id,
+          handle: hit?.handle ?? null,
+          start: canvasPos,
+          original: target.highlight,
+        });
+      }
+      return;
+    }
+
+    // Eraser: rubs out pending strokes, or strokes of the brush annotation under it
+    if (activeTool === 'eraser') {
+      if (showInput && pendingHighlight) return;
+      const canvasPos = getCanvasPos(e);
+      const hit = extendTarget ?? (pendingStrokes.length === 0 ? findAnnotationAtPoint(canvasPos) : null);
+      const target = hit && !isClosed(hit.status) && hit.highlight.type === 'brush' ? hit : null;
+      if (pendingStrokes.length === 0 && !target) return;
+      drawPointerRef.current = { id: e.pointerId, type: e.pointerType };
+      eraserPosRef.current = canvasPos;
+      strokeSizeRef.current = getStrokeSize();
+      setIsDrawing(true);
+      if (target?.highlight.type === 'brush') {
+        setErasePreview({ id: target.id, original: target.highlight, highlight: target.highlight });
+      }
+      setStrokeDraft(prev => ({ ...prev, erasingFrom: prev.strokes }));
+      eraseAlong(canvasPos, canvasPos);
+      return;
+    }
     
-    // For rect tool, don't allow drawing if input is showing
-    if (showInput && activeTool === 'select') return;
+    // For shape tools, don't allow drawing if input is showing
+    if (showInput && activeTool !== 'brush') return;
     
     const canvasPos = getCanvasPos(e);
+    if (containerRef.current) {
+      const rect = containerRef.current.getBoundingClientRect();
+      lastClickRef.current = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    }
+
+    // Polygon: each click places a vertex; clicking the first vertex closes it
+    if (activeTool === 'polygon' && polygonPoints.length > 0) {
+      const first = polygonPoints[0];
+      const closeDistance = POLYGON_CLOSE_DISTANCE * getSourcePixelRatio(canvasRef.current, sourceScale);
+      if (polygonPoints.length >= 3 && Math.hypot(canvasPos.x - first.x, canvasPos.y - first.y) <= closeDistance) {
+        closePolygon(polygonPoints);
+      } else {
+        setPolygonPoints([...polygonPoints, canvasPos]);
+      }
+      return;
+    }
+
+    // Pin: drop the marker and ask for its note straight away
+    if (activeTool === 'pin') {
+      onSelectAnnotation(null);
+      setPendingHighlight({
+        type: 'pin',
+        x: canvasPos.x,
+        y: canvasPos.y,
+        color: ANNOTATION_COLORS[annotations.length % ANNOTATION_COLORS.length],
+      });
+      setShowInput(true);
+      if (lastClickRef.current) setInputPosition(constrainPopoverPosition(lastClickRef.current));
+      return;
+    }
+
+    // Magic wand: outline the area of similar color around the click
+    if (activeTool === 'wand') {
+      if (segmenting || !containerRef.current) return;
+      onSelectAnnotation(null);
+      const color = ANNOTATION_COLORS[annotations.length % ANNOTATION_COLORS.length];
+      const clickPos = lastClickRef.current;
+      const pixelRatio = getSourcePixelRatio(canvasRef.current, sourceScale);
+      // The region is looked for within the view
+      const view = getVisibleBounds(canvasRef.current, containerRef.current, sourceScale, 0);
+      segment(view, (s, area) => s.selectRegion(area, canvasPos, wandTolerance), (outline, area) => {
+        // The outline steps along the sampled pixels, so smooth at least that much
+        const tolerance = Math.max(SIMPLIFY_TOLERANCE * pixelRatio, 1 / area.scale);
+        const points = outline && simplifyPoints(outline, tolerance);
+        if (!points || points.length < 3) return;
+        setPendingHighlight({ type: 'polygon', points, color });
+        setShowInput(true);
+        if (clickPos) setInputPosition(constrainPopoverPosition(clickPos));
+      });
+      return;
+    }
     
     // Check if clicking on an existing annotation (only if not in pending strokes mode)
-    if (pendingStrokes.length === 0 && !showInput) {
+    if (pendingStrokes.length === 0 && !showInput && !extendBrush) {
       const clickedAnnotation = findAnnotationAtPoint(canvasPos);
       if (clickedAnnotation) {
         onSelectAnnotation(clickedAnnotation.id);
@@ -827,24 +1539,100 @@ const AnnotationEditor = ({
       }
     }
     
+    onSelectAnnotation(null);
+    if (activeTool === 'polygon') {
+      setPolygonPoints([canvasPos]);
+      setPolygonCursor(canvasPos);
+      return;
+    }
+
     // Otherwise start drawing
+    drawPointerRef.current = { id: e.pointerId, type: e.pointerType };
     setIsDrawing(true);
-    onSelectAnnotation(null);
 
-    if (activeTool === 'select') {
+    if (isDragTool(activeTool)) {
       setDragStart(canvasPos);
-      setDragEnd(canvasPos);
+      dragEndRef.current = canvasPos;
+    } else if (activeTool === 'lasso') {
+      brushPointsRef.current = [canvasPos];
     } else if (activeTool === 'brush') {
-      setBrushPoints([canvasPos]);
-      // Set color on first stroke
+      brushPointsRef.current = [canvasPos];
+      brushPressuresRef.current = [e.pressure];
+      strokeSizeRef.current = getStrokeSize();
+      // Set color on first stroke (extending keeps the annotation's color)
       if (pendingStrokes.length === 0) {
-        setPendingColor(annotationColors[annotations.length % annotationColors.length]);
+        setPendingColor(extendBrush?.color ?? ANNOTATION_COLORS[annotations.length % ANNOTATION_COLORS.length]);
       }
     }
   };
 
+  // Finish the polygon and ask for its note
+  const closePolygon = (points: Point[]) => {
+    setPolygonPoints([]);
+    setPolygonCursor(null);
+    if (points.length < 3) return;
+    setPendingHighlight({
+      type: 'polygon',
+      points,
+      color: ANNOTATION_COLORS[annotations.length % ANNOTATION_COLORS.length],
+    });
+    setShowInput(true);
+    if (lastClickRef.current) setInputPosition(constrainPopoverPosition(lastClickRef.current));
+  };
+
+  // A double-click places two vertices at the same spot; drop the duplicate and close
+  const handleCanvasDoubleClick = () => {
+    if (activeTool !== 'polygon' || polygonPoints.length < 2) return;
+    closePolygon(polygonPoints.slice(0, -1));
+  };
+
+  // Enter closes the polygon in progress, Escape abandons it
+  useEffect(() => {
+    if (activeTool !== 'polygon' || polygonPoints.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        closePolygon(polygonPoints);
+      } else if (e.key === 'Escape') {
+        setPolygonPoints([]);
+        setPolygonCursor(null);
+      } else if (e.key === 'Backspace') {
+        e.preventDefault();
+        setPolygonPoints(polygonPoints.slice(0, -1));
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const resetPending = () => {
+    setPendingHighlight(null);
+    setStrokeDraft(EMPTY_STROKE_DRAFT);
+    setPendingColor(null);
+    setPendingLabel(null);
+    setPendingSeverity(null);
+    setInputText("");
+    setShowInput(false);
+    setInputPosition(null);
+  };
+
   const handleSaveAnnotation = () => {
     let highlight: Highlight;
+
+    // Strokes drawn while extending are appended to the existing brush annotation
+    if (extendTarget && extendBrush) {
+      if (pendingStrokes.length > 0) {
+        onUpdateAnnotation(extendTarget.id, {
+          highlight: { ...extendBrush, strokes: [...extendBrush.strokes, ...pendingStrokes] },
+        });
+      }
+      resetPending();
+      onExtendEnd();
+      return;
+    }
     
     if (pendingStrokes.length > 0 && pendingColor) {
       // Brush with multiple strokes
@@ -861,33 +1649,107 @@ const AnnotationEditor = ({
     }
     
     const newAnnotation: Annotation = {
-      id: Date.now().toString(),
+      id: createId(),
       text: inputText.trim() || '', // Note is optional
       highlight: highlight,
       color: highlight.color,
       timestamp: Date.now(),
       replies: [],
-      completed: false,
+      author,
+      status: 'open',
+      ...(pendingLabel && { label: pendingLabel }),
+      ...(pendingSeverity && { severity: pendingSeverity }),
     };
     
     onAddAnnotation(newAnnotation);
-    setPendingHighlight(null);
-    setPendingStrokes([]);
-    setPendingColor(null);
-    setInputText("");
-    setShowInput(false);
-    setInputPosition(null);
+    resetPending();
+  };
+
+  // Filing under a label gives the pending highlight the label's color; picking it again clears it
+  const handlePickLabel = (label: Label) => {
+    if (pendingLabel?.id === label.id) {
+      setPendingLabel(null);
+      return;
+    }
+    const color = toHighlightColor(label.color);
+    setPendingLabel(label);
+    setPendingHighlight(prev => prev && { ...prev, color });
+    setPendingColor(prev => prev && color);
+    inputRef.current?.focus();
   };
 
   const handleDiscard = () => {
-    setPendingHighlight(null);
-    setPendingStrokes([]);
-    setPendingColor(null);
-    setInputText("");
-    setShowInput(false);
-    setInputPosition(null);
+    resetPending();
+    if (extendAnnotationId) onExtendEnd();
+  };
+
+  const handleExportImage = (includeLegend: boolean) => {
+    if (!loadedImage) return;
+    setExportMenuVisible(false);
+    const { pyramid } = loadedImage;
+    // As large as the browser comfortably draws; annotations are scaled to match.
+    // A PNG is encoded from a single canvas, so anything bigger can't be exported
+    // at full size; say so rather than hand back a smaller file unannounced.
+    const output = getCanvasSize(pyramid.size);
+    const reduced = output.width !== pyramid.size.width || output.height !== pyramid.size.height;
+    if (reduced && !confirm(
+      `This image is ${pyramid.size.width}×${pyramid.size.height}px, larger than the browser can export in one piece. ` +
+      `The exported image will be reduced to ${output.width}×${output.height}px. Continue?`
+    )) return;
+    pyramid.getImage(MAX_CANVAS_DIMENSION)
+      .then(image =>
+        downloadAnnotatedImage(image, pyramid.size, annotations, { includeLegend }).finally(() => image.close())
+      )
+      .catch(err => {
+        console.error('Export failed:', err);
+        alert('Failed to export the annotated image.');
+      });
   };
 
+  const handleUndoStroke = () => {
+    setStrokeDraft(prev => prev.past.length === 0 ? prev : {
+      strokes: prev.past[prev.past.length - 1],
+      past: prev.past.slice(0, -1),
+      future: [prev.strokes, ...prev.future],
+      erasingFrom: null,
+    });
+  };
+
+  const handleRedoStroke = () => {
+    setStrokeDraft(prev => prev.future.length === 0 ? prev : {
+      strokes: prev.future[0],
+      past: [...prev.past, prev.strokes],
+      future: prev.future.slice(1),
+      erasingFrom: null,
+    });
+  };
+
+  // Per-stroke (and per-erase) undo while a brush annotation is pending. Registered in the capture
+  // phase and marked with preventDefault so the page-level history shortcut skips it.
+  useEffect(() => {
+    if (strokeDraft.past.length === 0 && strokeDraft.future.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (e.target instanceof HTMLInputElement) return;
+      // Inside the note, native text undo wins once something has been typed
+      if (e.target instanceof HTMLTextAreaElement && (e.target !== inputRef.current || inputText)) return;
+
+      if (e.shiftKey) {
+        if (strokeDraft.future.length === 0) return;
+        e.preventDefault();
+        handleRedoStroke();
+      } else {
+        if (strokeDraft.past.length === 0) return;
+        e.preventDefault();
+        handleUndoStroke();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  });
+
   const handleInputKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -948,13 +1810,15 @@ const AnnotationEditor = ({
     }
   }, [transform, isPanning]);
 
+  const isBrushPending = pendingStrokes.length > 0 || strokeDraft.past.length > 0 || strokeDraft.future.length > 0;
+
   return (
     <div className="flex flex-col h-full w-full relative bg-neutral-900">
             {/* Toolbar */}
             <div className="fixed top-1/2 -translate-y-1/2 right-4 z-50">
               <div className="flex items-center gap-3">
                 {/* Brush Settings Panel - click brush button to toggle */}
-                {activeTool === 'brush' && brushSettingsVisible && (
+                {(activeTool === 'brush' || activeTool === 'eraser') && toolSettingsVisible && (
                   <div className="flex flex-col items-center gap-0 bg-black/80 backdrop-blur-sm rounded-full px-0 py-1 shadow-lg transition-all duration-300 ease-out">
                     {/* Brush Size */}
                     <div className="flex flex-col items-center gap-0">
@@ -971,7 +1835,7 @@ const AnnotationEditor = ({
                       <span className="text-[10px] font-mono text-white/70">{brushSize}</span>
                     </div>
                     {/* Brush Opacity */}
-                    <div className="flex flex-col items-center gap-0">
+                    {activeTool === 'brush' && <div className="flex flex-col items-center gap-0">
                       <span className="text-[8px] font-mono text-white/50">OPACITY</span>
                       <input 
                         type="range" 
@@ -983,13 +1847,72 @@ const AnnotationEditor = ({
                         style={{ marginTop: '24px', marginBottom: '24px' }}
                       />
                       <span className="text-[10px] font-mono text-white/70">{Math.round(brushOpacity * 100)}%</span>
-                    </div>
+                    </div>}
+                  </div>
+                )}
+
+                {/* Magic wand tolerance, lasso edge snapping */}
+                {(activeTool === 'wand' || activeTool === 'lasso') && toolSettingsVisible && (
+                  <div className="flex flex-col items-center gap-0 bg-black/80 backdrop-blur-sm rounded-full px-0 py-1 shadow-lg transition-all duration-300 ease-out">
+                    {activeTool === 'wand' ? (
+                      <div className="flex flex-col items-center gap-0">
+                        <span className="text-[8px] font-mono text-white/50">TOLERANCE</span>
+                        <input
+                          type="range"
+                          min="0"
+                          max="128"
+                          value={wandTolerance}
+                          onChange={(e) => setWandTolerance(Number(e.target.value))}
+                          className="w-16 accent-white -rotate-90 origin-center"
+                          style={{ marginTop: '24px', marginBottom: '24px' }}
+                        />
+                        <span className="text-[10px] font-mono text-white/70">{wandTolerance}</span>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => setSnapLasso(!snapLasso)}
+                        className={`flex flex-col items-center gap-0.5 p-2 rounded-full transition ${snapLasso ? 'text-white' : 'text-white/40 hover:text-white/70'}`}
+                        title="Snap the lasso to edges in the image"
+                      >
+                        <Magnet size={16} />
+                        <span className="text-[8px] font-mono">{snapLasso ? 'SNAP' : 'FREE'}</span>
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {/* Export Menu */}
+                {exportMenuVisible && (
+                  <div className="flex flex-col gap-1 bg-black/80 backdrop-blur-sm rounded-2xl p-2 shadow-lg">
+                    <span className="text-[8px] font-mono text-white/50 px-2">EXPORT PNG</span>
+                    <button
+                      onClick={() => handleExportImage(false)}
+                      className="text-xs text-white/80 hover:text-white hover:bg-white/10 rounded-lg px-2 py-1 text-left"
+                    >
+                      Image with markers
+                    </button>
+                    <button
+                      onClick={() => handleExportImage(true)}
+                      className="text-xs text-white/80 hover:text-white hover:bg-white/10 rounded-lg px-2 py-1 text-left"
+                    >
+                      Image + comment legend
+                    </button>
                   </div>
                 )}
 
                 {/* Main Toolbar */}
                 <div className={`flex flex-col items-center gap-2 bg-black/80 backdrop-blur-sm rounded-full px-2 py-4 shadow-lg transition-opacity duration-200 ${isDrawing ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
                   {/* Tool Switcher */}
+                  <button
+                    onClick={() => {
+                      setActiveTool('move');
+                      setToolSettingsVisible(false);
+                    }}
+                    className={`p-2 rounded-full transition ${activeTool === 'move' ? 'bg-white text-black' : 'text-white/70 hover:text-white'}`}
+                    title="Move Tool (V) - drag to move, handles to resize, Delete to remove"
+                  >
+                    <MousePointer2 size={18} />
+                  </button>
                   <button 
                     onClick={() => {
                       setActiveTool('select');
@@ -999,13 +1922,81 @@ const AnnotationEditor = ({
                   >
                     <Square size={18} />
                   </button>
+                  <button
+                    onClick={() => {
+                      setActiveTool('ellipse');
+                      setToolSettingsVisible(false);
+                    }}
+                    className={`p-2 rounded-full transition ${activeTool === 'ellipse' ? 'bg-white text-black' : 'text-white/70 hover:text-white'}`}
+                    title="Ellipse Tool (E)"
+                  >
+                    <Circle size={18} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setActiveTool('arrow');
+                      setToolSettingsVisible(false);
+                    }}
+                    className={`p-2 rounded-full transition ${activeTool === 'arrow' ? 'bg-white text-black' : 'text-white/70 hover:text-white'}`}
+                    title="Arrow Tool (A) - drag from tail to tip"
+                  >
+                    <ArrowUpRight size={18} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setActiveTool('polygon');
+                      setToolSettingsVisible(false);
+                    }}
+                    className={`p-2 rounded-full transition ${activeTool === 'polygon' ? 'bg-white text-black' : 'text-white/70 hover:text-white'}`}
+                    title="Polygon Tool (P) - click to add points, click the first point or press Enter to close"
+                  >
+                    <Pentagon size={18} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (activeTool === 'lasso') {
+                        setToolSettingsVisible(!toolSettingsVisible);
+                      } else {
+                        setActiveTool('lasso');
+                        setToolSettingsVisible(false);
+                      }
+                    }}
+                    className={`p-2 rounded-full transition ${activeTool === 'lasso' ? 'bg-white text-black' : 'text-white/70 hover:text-white'}`}
+                    title="Lasso Tool (L) - drag around an area; click again for edge snapping"
+                  >
+                    <Lasso size={18} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (activeTool === 'wand') {
+                        setToolSettingsVisible(!toolSettingsVisible);
+                      } else {
+                        setActiveTool('wand');
+                        setToolSettingsVisible(true);
+                      }
+                    }}
+                    className={`p-2 rounded-full transition ${activeTool === 'wand' ? 'bg-white text-black' : 'text-white/70 hover:text-white'}`}
+                    title="Magic Wand (W) - click to outline an area of similar color"
+                  >
+                    <Wand2 size={18} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setActiveTool('pin');
+                      setToolSettingsVisible(false);
+                    }}
+                    className={`p-2 rounded-full transition ${activeTool === 'pin' ? 'bg-white text-black' : 'text-white/70 hover:text-white'}`}
+                    title="Pin Tool (M) - click to drop a marker"
+                  >
+                    <MapPin size={18} />
+                  </button>
                   <button 
                     onClick={() => {
                       if (activeTool === 'brush') {
-                        setBrushSettingsVisible(!brushSettingsVisible);
+                        setToolSettingsVisible(!toolSettingsVisible);
                       } else {
                         setActiveTool('brush');
-                        setBrushSettingsVisible(true);
+                        setToolSettingsVisible(true);
                       }
                     }}
                     className={`p-2 rounded-full transition ${activeTool === 'brush' ? 'bg-white text-black' : 'text-white/70 hover:text-white'}`}
@@ -1013,8 +2004,46 @@ const AnnotationEditor = ({
                   >
                     <Brush size={18} />
                   </button>
+                  <button
+                    onClick={() => {
+                      if (activeTool === 'eraser') {
+                        setToolSettingsVisible(!toolSettingsVisible);
+                      } else {
+                        setActiveTool('eraser');
+                        setToolSettingsVisible(true);
+                      }
+                    }}
+                    className={`p-2 rounded-full transition ${activeTool === 'eraser' ? 'bg-white text-black' : 'text-white/70 hover:text-white'}`}
+                    title="Eraser (X) - erase brush strokes; [ and ] change its size"
+                  >
+                    <Eraser size={18} />
+                  </button>
     
                   <div className="h-px w-6 bg-white/20" />
+
+                  {/* Open another image */}
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="p-2 rounded-full transition text-white/70 hover:text-white"
+                    title="Open Image"
+                  >
+                    <Upload size={18} />
+                  </button>
+                  <button
+                    onClick={() => setExportMenuVisible(!exportMenuVisible)}
+                    disabled={!loadedImage}
+                    className={`p-2 rounded-full transition ${exportMenuVisible ? 'bg-white text-black' : 'text-white/70 hover:text-white'}`}
+                    title="Export annotated image"
+                  >
+                    <ImageDown size={18} />
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    onChange={handleFileUpload}
+                    className="hidden"
+                  />
     
                   {/* Eye Toggle - show/hide highlights */}
                   <button
@@ -1030,10 +2059,10 @@ const AnnotationEditor = ({
 
       {/* Canvas Area - Full Screen */}
       <div 
-        className="flex-1 flex items-center justify-center overflow-hidden relative"
+        className="flex-1 flex items-center justify-center overflow-hidden relative touch-none"
         ref={containerRef}
       >
-        {!originalImage ? (
+        {!loadedImage ? (
           <div className="text-white/50 text-sm">Loading image...</div>
         ) : (
           <div
@@ -1048,11 +2077,34 @@ const AnnotationEditor = ({
               cursor: isPanning ? 'grabbing' : 'crosshair'
             }}
           >
-            <canvas
-              ref={canvasRef}
-              onMouseDown={handleMouseDown}
-              className="cursor-crosshair"
-            />
+            <div className="relative">
+              <canvas ref={imageCanvasRef} className="block" />
+              <div ref={tileContainerRef} className="absolute inset-0 pointer-events-none" />
+              <canvas ref={annotationCanvasRef} className="absolute inset-0 pointer-events-none" />
+              <canvas
+                ref={canvasRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handleCanvasPointerMove}
+                onPointerLeave={() => {
+                  if (activeTool !== 'eraser' || isDrawing) return;
+                  eraserPosRef.current = null;
+                  drawLiveLayer();
+                }}
+                onDoubleClick={handleCanvasDoubleClick}
+                className={`absolute inset-0 ${activeTool === 'move' ? '' : 'cursor-crosshair'}`}
+                style={activeTool === 'move' ? { cursor: editDrag ? (editDrag.handle ? HANDLE_CURSORS[editDrag.handle] : 'move') : hoverCursor ?? 'default' } : segmenting ? { cursor: 'progress' } : undefined}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Hint while adding strokes to an existing brush annotation */}
+        {extendBrush && !showInput && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 bg-black/80 text-white text-xs rounded-full px-4 py-2 shadow-lg">
+            <span>Draw to add strokes to this annotation</span>
+            <button onClick={onExtendEnd} className="text-white/60 hover:text-white">
+              Cancel
+            </button>
           </div>
         )}
 
@@ -1064,16 +2116,34 @@ const AnnotationEditor = ({
               left: inputPosition.x, 
               top: inputPosition.y,
             }}
-            className={`bg-white rounded-lg shadow-xl border border-gray-200 w-64 z-30 ${pendingStrokes.length > 0 ? 'cursor-move' : ''}`}
-            onMouseDown={pendingStrokes.length > 0 ? handlePopoverMouseDown : undefined}
+            className={`bg-white rounded-lg shadow-xl border border-gray-200 w-64 z-30 ${isBrushPending ? 'cursor-move' : ''}`}
+            onMouseDown={isBrushPending ? handlePopoverMouseDown : undefined}
           >
             {/* Drag handle for brush mode */}
-            {pendingStrokes.length > 0 && (
+            {isBrushPending && (
               <div className="px-4 pt-3 pb-1 border-b border-gray-100 select-none">
                 <div className="flex items-center justify-between">
                   <div className="text-[10px] text-gray-500 flex items-center gap-1">
                     <span className="inline-block w-2 h-2 rounded-full bg-amber-400"></span>
-                    {pendingStrokes.length} stroke{pendingStrokes.length > 1 ? 's' : ''}
+                    {pendingStrokes.length} stroke{pendingStrokes.length !== 1 ? 's' : ''}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={handleUndoStroke}
+                      disabled={strokeDraft.past.length === 0}
+                      className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Undo stroke or erase (Ctrl/Cmd+Z)"
+                    >
+                      <Undo2 size={12} />
+                    </button>
+                    <button
+                      onClick={handleRedoStroke}
+                      disabled={strokeDraft.future.length === 0}
+                      className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Redo stroke or erase (Ctrl/Cmd+Shift+Z)"
+                    >
+                      <Redo2 size={12} />
+                    </button>
                   </div>
                   <div className="flex gap-0.5">
                     <span className="w-1 h-1 rounded-full bg-gray-300"></span>
@@ -1085,16 +2155,49 @@ const AnnotationEditor = ({
               </div>
             )}
             <div className="p-4 pt-3">
-              <textarea
-                ref={inputRef}
-                className="w-full border border-gray-300 rounded p-2 text-sm mb-2 min-h-[50px] resize-none"
-                placeholder="Add a note (optional)..."
-                value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
-                onKeyDown={handleInputKeyDown}
-              />
+              {extendBrush ? (
+                <p className="text-xs text-gray-500 mb-2">Adding strokes to an existing annotation.</p>
+              ) : (
+                <textarea
+                  ref={inputRef}
+                  className="w-full border border-gray-300 rounded p-2 text-sm mb-2 min-h-[50px] resize-none"
+                  placeholder="Add a note (optional)..."
+                  value={inputText}
+                  onChange={(e) => setInputText(e.target.value)}
+                  onKeyDown={handleInputKeyDown}
+                />
+              )}
+              {!extendBrush && (
+                <div className="space-y-1.5 mb-2">
+                  {labels.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {labels.map(label => (
+                        <button
+                          key={label.id}
+                          onClick={() => handlePickLabel(label)}
+                          className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded border transition ${pendingLabel?.id === label.id ? 'border-gray-700 text-gray-900' : 'border-gray-200 text-gray-500 hover:border-gray-400'}`}
+                        >
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: label.color }} />
+                          {label.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-1">
+                    {SEVERITIES.map(severity => (
+                      <button
+                        key={severity}
+                        onClick={() => setPendingSeverity(pendingSeverity === severity ? null : severity)}
+                        className={`flex-1 text-[10px] py-0.5 rounded transition ${pendingSeverity === severity ? SEVERITY_STYLES[severity] : 'text-gray-400 hover:text-gray-600'}`}
+                      >
+                        {SEVERITY_NAMES[severity]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
               <div className="flex justify-between items-center">
-                <span className="text-[10px] text-gray-400">Enter to save</span>
+                <span className="text-[10px] text-gray-400">{extendBrush ? '' : 'Enter to save'}</span>
                 <div className="flex gap-2">
                   <button 
                     onClick={handleDiscard}
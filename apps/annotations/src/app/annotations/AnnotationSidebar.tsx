@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import { MessageSquare, CheckCircle, MessageCircle } from 'lucide-react';
 import { Annotation } from './types';
+import { isClosed } from './status';
 
 interface AnnotationSidebarProps {
   annotations: Annotation[];
@@ -19,7 +20,7 @@ export default function AnnotationSidebar({
 }: AnnotationSidebarProps) {
   const [confirmingId, setConfirmingId] = useState<string | null>(null);
 
-  const activeAnnotations = annotations.filter(a => !a.completed);
+  const activeAnnotations = annotations.filter(a => !isClosed(a.status));
 
   const handleMarkComplete = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
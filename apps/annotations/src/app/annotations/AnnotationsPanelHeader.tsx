@@ -1,19 +1,139 @@
 "use client";
 
-import React from 'react';
+import React, { useState } from 'react';
+import { Undo2, Redo2, Trash2, FileDown, FileUp, UserCircle, Tags } from 'lucide-react';
+import { Author } from './types';
+import { StorageUsage } from './documents';
+import AuthorAvatar from './AuthorAvatar';
 import styles from './AnnotationsPanelHeader.module.css';
 
 interface AnnotationsPanelHeaderProps {
   activeCount: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClearAll?: () => void;
+  onExport?: () => void;
+  onImport?: () => void;
+  profile: Author | null;
+  onEditProfile: () => void;
+  onEditLabels: () => void;
+  storageUsage: StorageUsage | null;
 }
 
-export default function AnnotationsPanelHeader({ activeCount }: AnnotationsPanelHeaderProps) {
+function formatSize(characters: number) {
+  if (characters < 1000) return `${characters} B`;
+  if (characters < 1_000_000) return `${Math.round(characters / 1000)} KB`;
+  return `${(characters / 1_000_000).toFixed(1)} MB`;
+}
+
+export default function AnnotationsPanelHeader({
+  activeCount,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onClearAll,
+  onExport,
+  onImport,
+  profile,
+  onEditProfile,
+  onEditLabels,
+  storageUsage,
+}: AnnotationsPanelHeaderProps) {
+  const [confirmingClear, setConfirmingClear] = useState(false);
+  const usedShare = storageUsage ? storageUsage.totalSize / storageUsage.quota : 0;
+
   return (
     <div className={styles.header}>
-      <h2 className={styles.title}>Comments</h2>
+      <div className={styles.row}>
+        <h2 className={styles.title}>Comments</h2>
+        <div className={styles.actions}>
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className={styles.iconButton}
+            title="Undo (Ctrl/Cmd+Z)"
+          >
+            <Undo2 size={14} />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className={styles.iconButton}
+            title="Redo (Ctrl/Cmd+Shift+Z)"
+          >
+            <Redo2 size={14} />
+          </button>
+          <button
+            onClick={onImport}
+            disabled={!onImport}
+            className={styles.iconButton}
+            title="Import W3C Web Annotations (JSON-LD)"
+          >
+            <FileUp size={14} />
+          </button>
+          <button
+            onClick={onExport}
+            disabled={!onExport}
+            className={styles.iconButton}
+            title="Export as W3C Web Annotations (JSON-LD)"
+          >
+            <FileDown size={14} />
+          </button>
+          <button
+            onClick={() => setConfirmingClear(true)}
+            disabled={!onClearAll}
+            className={styles.iconButton}
+            title="Clear all"
+          >
+            <Trash2 size={14} />
+          </button>
+          <button
+            onClick={onEditLabels}
+            className={styles.iconButton}
+            title="Edit labels"
+          >
+            <Tags size={14} />
+          </button>
+          <button
+            onClick={onEditProfile}
+            className={styles.iconButton}
+            title={profile ? `Commenting as ${profile.name}` : 'Set up your profile'}
+          >
+            {profile ? <AuthorAvatar author={profile} size={16} /> : <UserCircle size={14} />}
+          </button>
+        </div>
+      </div>
       <p className={styles.subtitle}>
         {activeCount} {activeCount === 1 ? 'item' : 'items'}
+        {storageUsage && (
+          <span
+            className={storageUsage.saveFailed || usedShare > 0.8 ? styles.storageWarning : undefined}
+            title={`This image: ${formatSize(storageUsage.documentSize)}. All saved data: ${formatSize(storageUsage.totalSize)} of about ${formatSize(storageUsage.quota)}.`}
+          >
+            {' · '}
+            {storageUsage.saveFailed
+              ? 'Browser storage is full; changes are not saved locally'
+              : `${formatSize(storageUsage.documentSize)} saved (${Math.round(usedShare * 100)}% of browser storage)`}
+          </span>
+        )}
       </p>
+      {confirmingClear && onClearAll && (
+        <div className={styles.confirm}>
+          <span className={styles.confirmText}>Clear all annotations?</span>
+          <button onClick={() => setConfirmingClear(false)} className={styles.confirmNo}>
+            No
+          </button>
+          <button
+            onClick={() => { onClearAll(); setConfirmingClear(false); }}
+            className={styles.confirmYes}
+          >
+            Yes
+          </button>
+        </div>
+      )}
     </div>
   );
 }
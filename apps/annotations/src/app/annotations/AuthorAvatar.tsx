@@ -0,0 +1,24 @@
+import React from 'react';
+import { Author } from './types';
+
+interface AuthorAvatarProps {
+  author: Author;
+  size?: number;
+}
+
+export default function AuthorAvatar({ author, size = 20 }: AuthorAvatarProps) {
+  return (
+    <div
+      className="rounded-full flex items-center justify-center flex-shrink-0 text-white font-semibold select-none"
+      style={{
+        width: size,
+        height: size,
+        backgroundColor: author.color,
+        fontSize: Math.round(size * 0.42),
+      }}
+      title={author.name}
+    >
+      {author.initials}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Author } from './types';
+import { createId } from './ids';
+import { getInitials, PROFILE_COLORS } from './profile';
+import AuthorAvatar from './AuthorAvatar';
+
+interface AuthorProfileDialogProps {
+  profile: Author | null;
+  onSave: (profile: Author) => void;
+  // Omitted on first run, when a profile is required before annotating
+  onCancel?: () => void;
+}
+
+export default function AuthorProfileDialog({ profile, onSave, onCancel }: AuthorProfileDialogProps) {
+  const [name, setName] = useState(profile?.name ?? '');
+  const [color, setColor] = useState(
+    () => profile?.color ?? PROFILE_COLORS[Math.floor(Math.random() * PROFILE_COLORS.length)]
+  );
+  const [initials, setInitials] = useState(profile?.initials ?? '');
+
+  const trimmed = name.trim();
+  const preview: Author = {
+    id: profile?.id ?? '',
+    name: trimmed || 'Your name',
+    color,
+    initials: initials.trim() || getInitials(trimmed),
+  };
+
+  const handleSave = () => {
+    if (!trimmed) return;
+    // Keep the id when editing so earlier comments still match the author filter
+    onSave({ ...preview, id: profile?.id ?? createId(), name: trimmed });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-80 bg-white rounded-lg shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 bg-gray-50">
+          <span className="text-sm font-medium text-gray-700">
+            {profile ? 'Your profile' : 'Who is reviewing?'}
+          </span>
+          {onCancel && (
+            <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 p-1" title="Close">
+              <X size={16} />
+            </button>
+          )}
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="flex items-center gap-3">
+            <AuthorAvatar author={preview} size={40} />
+            <p className="text-xs text-gray-500">
+              Your name and color are shown on every comment and reply you write in this browser.
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-gray-600">Display name</label>
+            <input
+              autoFocus
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              maxLength={60}
+              className="w-full text-sm border border-gray-300 rounded px-3 py-2 focus:outline-none focus:border-gray-500"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-gray-600">Initials</label>
+            <input
+              type="text"
+              value={initials}
+              onChange={(e) => setInitials(e.target.value.toUpperCase())}
+              placeholder={getInitials(trimmed)}
+              maxLength={3}
+              className="w-20 text-sm border border-gray-300 rounded px-3 py-2 focus:outline-none focus:border-gray-500"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-gray-600">Color</label>
+            <div className="flex gap-2">
+              {PROFILE_COLORS.map(c => (
+                <button
+                  key={c}
+                  onClick={() => setColor(c)}
+                  className={`w-6 h-6 rounded-full border-2 transition ${color === c ? 'border-gray-800' : 'border-transparent'}`}
+                  style={{ backgroundColor: c }}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-100 bg-gray-50">
+          {onCancel && (
+            <button onClick={onCancel} className="text-sm px-3 py-1.5 text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!trimmed}
+            className="text-sm px-4 py-1.5 bg-black text-white rounded hover:bg-gray-800 disabled:opacity-30"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
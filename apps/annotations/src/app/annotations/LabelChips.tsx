@@ -0,0 +1,29 @@
+import React from 'react';
+import { Annotation } from './types';
+import { SEVERITY_NAMES, SEVERITY_STYLES } from './labels';
+
+interface LabelChipsProps {
+  annotation: Pick<Annotation, 'label' | 'severity'>;
+}
+
+// An annotation's label and severity; renders nothing when it has neither
+export default function LabelChips({ annotation: { label, severity } }: LabelChipsProps) {
+  if (!label && !severity) return null;
+  return (
+    <span className="inline-flex items-center gap-1 min-w-0 mt-1">
+      {label && (
+        <span
+          className="px-1.5 py-px rounded text-[10px] font-medium text-white truncate"
+          style={{ backgroundColor: label.color }}
+        >
+          {label.name}
+        </span>
+      )}
+      {severity && (
+        <span className={`px-1.5 py-px rounded text-[10px] font-medium ${SEVERITY_STYLES[severity]}`}>
+          {SEVERITY_NAMES[severity]}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Label } from './types';
+import { createId } from './ids';
+import { LABEL_COLORS } from './labels';
+
+interface LabelsDialogProps {
+  labels: Label[];
+  onSave: (labels: Label[]) => void;
+  onCancel: () => void;
+}
+
+export default function LabelsDialog({ labels, onSave, onCancel }: LabelsDialogProps) {
+  const [draft, setDraft] = useState(labels);
+
+  const updateLabel = (id: string, changes: Partial<Label>) => {
+    setDraft(draft.map(l => (l.id === id ? { ...l, ...changes } : l)));
+  };
+
+  const addLabel = () => {
+    const color = LABEL_COLORS.find(c => !draft.some(l => l.color === c)) ?? LABEL_COLORS[0];
+    setDraft([...draft, { id: createId(), name: '', color }]);
+  };
+
+  // Unnamed rows are dropped rather than saved
+  const handleSave = () => {
+    onSave(draft.map(l => ({ ...l, name: l.name.trim() })).filter(l => l.name));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-80 bg-white rounded-lg shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 bg-gray-50">
+          <span className="text-sm font-medium text-gray-700">Labels</span>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 p-1" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <p className="text-xs text-gray-500">
+            Categories to file annotations under. A label&apos;s color becomes the highlight color of what you file under it.
+          </p>
+
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {draft.map(label => (
+              <div key={label.id} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={label.color}
+                  onChange={(e) => updateLabel(label.id, { color: e.target.value })}
+                  className="w-7 h-7 rounded border border-gray-200 p-0.5 cursor-pointer"
+                  title="Label color"
+                />
+                <input
+                  type="text"
+                  value={label.name}
+                  onChange={(e) => updateLabel(label.id, { name: e.target.value })}
+                  placeholder="Label name"
+                  maxLength={30}
+                  className="flex-1 min-w-0 text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:border-gray-500"
+                />
+                <button
+                  onClick={() => setDraft(draft.filter(l => l.id !== label.id))}
+                  className="text-gray-300 hover:text-red-500 p-1"
+                  title="Remove label"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={addLabel}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-black"
+          >
+            <Plus size={14} />
+            Add label
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-3 border-t border-gray-100 bg-gray-50">
+          <button onClick={onCancel} className="text-sm px-3 py-1.5 text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="text-sm px-4 py-1.5 bg-black text-white rounded hover:bg-gray-800"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
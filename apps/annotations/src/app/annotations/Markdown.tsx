@@ -0,0 +1,119 @@
+import React from 'react';
+import { Author } from './types';
+
+// The small markdown subset replies are written in: paragraphs, "-" / "*" and
+// "1." lists, **bold**, `code`, [links](https://…) and bare links. Built as
+// React elements, never as HTML, so nothing in a reply can inject markup.
+
+interface MarkdownProps {
+  text: string;
+  // Authors whose @Name in the text is highlighted
+  mentions?: Author[];
+}
+
+type Block =
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'list'; ordered: boolean; items: string[] };
+
+const BULLET = /^\s*[-*]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  for (const line of text.split('\n')) {
+    const bullet = BULLET.exec(line);
+    const numbered = bullet ? null : NUMBERED.exec(line);
+    const item = bullet ?? numbered;
+    if (item) {
+      const ordered = !!numbered;
+      if (current?.type !== 'list' || current.ordered !== ordered) {
+        current = { type: 'list', ordered, items: [] };
+        blocks.push(current);
+      }
+      current.items.push(item[1]);
+    } else if (!line.trim()) {
+      current = null;
+    } else {
+      if (current?.type !== 'paragraph') {
+        current = { type: 'paragraph', lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(line);
+    }
+  }
+  return blocks;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Groups: 1 code, 2 bold, 3-4 link text and url, 5 bare url, 6 mention
+function inlinePattern(mentions: Author[]): RegExp {
+  const names = [...new Set(mentions.map(m => m.name))]
+    .sort((a, b) => b.length - a.length) // "@Ann Lee" before "@Ann"
+    .map(escapeRegExp);
+  const parts = [
+    '`([^`\\n]+)`',
+    '\\*\\*(.+?)\\*\\*',
+    '\\[([^\\]\\n]+)\\]\\(((?:https?:\\/\\/|mailto:)[^)\\s]+)\\)',
+    '(https?:\\/\\/[^\\s<]*[^\\s<.,:;!?"\')\\]])',
+    names.length > 0 ? `@(${names.join('|')})` : '(?!)',
+  ];
+  return new RegExp(parts.join('|'), 'g');
+}
+
+function renderInline(text: string, pattern: RegExp, keyPrefix: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  const re = new RegExp(pattern.source, 'g');
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text))) {
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+    const key = `${keyPrefix}-${match.index}`;
+    const [, code, bold, linkText, linkUrl, bareUrl, mention] = match;
+    if (code !== undefined) {
+      nodes.push(<code key={key} className="px-1 rounded bg-gray-100 font-mono text-[0.9em]">{code}</code>);
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold, pattern, key)}</strong>);
+    } else if (linkUrl !== undefined || bareUrl !== undefined) {
+      nodes.push(
+        <a key={key} href={linkUrl ?? bareUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline break-all">
+          {linkText ?? bareUrl}
+        </a>
+      );
+    } else if (mention !== undefined) {
+      nodes.push(<span key={key} className="px-0.5 rounded bg-blue-50 text-blue-700 font-medium">@{mention}</span>);
+    }
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+export default function Markdown({ text, mentions = [] }: MarkdownProps) {
+  const pattern = inlinePattern(mentions);
+  return (
+    <div className="space-y-1.5 break-words">
+      {parseBlocks(text).map((block, i) => {
+        if (block.type === 'paragraph') {
+          return (
+            <p key={i}>
+              {block.lines.map((line, j) => (
+                <React.Fragment key={j}>
+                  {j > 0 && <br />}
+                  {renderInline(line, pattern, `${i}-${j}`)}
+                </React.Fragment>
+              ))}
+            </p>
+          );
+        }
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={i} className={`pl-4 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map((item, j) => <li key={j}>{renderInline(item, pattern, `${i}-${j}`)}</li>)}
+          </List>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import React, { useRef, useState } from 'react';
+import { Send } from 'lucide-react';
+import { Author } from './types';
+import AuthorAvatar from './AuthorAvatar';
+
+interface ReplyComposerProps {
+  initialText?: string;
+  initialMentions?: Author[];
+  // Who can be @mentioned
+  authors: Author[];
+  onSubmit: (text: string, mentions: Author[]) => void;
+  onCancel: () => void;
+  // Editing an existing reply: Save and Cancel buttons instead of Send
+  editing?: boolean;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+// An "@query" being typed just before the caret
+const MENTION_QUERY = /(?:^|\s)@([^@\n]{0,30})$/;
+
+// Only the picked authors whose @Name is still in the text
+const keptMentions = (text: string, mentions: Author[]) =>
+  mentions.filter((m, i) => text.includes(`@${m.name}`) && mentions.findIndex(o => o.id === m.id) === i);
+
+// Multi-line markdown input with @mention autocomplete. Enter sends,
+// Shift+Enter starts a new line.
+export default function ReplyComposer({
+  initialText = '',
+  initialMentions = [],
+  authors,
+  onSubmit,
+  onCancel,
+  editing = false,
+}: ReplyComposerProps) {
+  const [text, setText] = useState(initialText);
+  const [mentions, setMentions] = useState(initialMentions);
+  const [query, setQuery] = useState<{ start: number; text: string } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = query
+    ? authors
+        .filter(a => a.name.toLowerCase().includes(query.text.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const showSuggestions = suggestions.length > 0;
+
+  const updateQuery = (el: HTMLTextAreaElement) => {
+    const match = MENTION_QUERY.exec(el.value.slice(0, el.selectionStart));
+    setQuery(match ? { start: el.selectionStart - match[1].length - 1, text: match[1] } : null);
+    setActiveIndex(0);
+  };
+
+  const pickMention = (author: Author) => {
+    const el = textareaRef.current;
+    if (!query || !el) return;
+    const before = `${text.slice(0, query.start)}@${author.name} `;
+    setText(before + text.slice(el.selectionStart));
+    setMentions([...mentions, author]);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleSubmit = () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    onSubmit(trimmed, keptMentions(trimmed, mentions));
+    setText('');
+    setMentions([]);
+    setQuery(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (showSuggestions) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pickMention(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        setQuery(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    }
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onCancel();
+    }
+  };
+
+  const textarea = (
+    <div className="relative flex-1 min-w-0">
+      <textarea
+        ref={textareaRef}
+        autoFocus
+        value={text}
+        rows={Math.min(5, Math.max(editing ? 2 : 1, text.split('\n').length))}
+        onChange={(e) => {
+          setText(e.target.value);
+          updateQuery(e.target);
+        }}
+        onSelect={(e) => updateQuery(e.currentTarget)}
+        onBlur={() => setQuery(null)}
+        onKeyDown={handleKeyDown}
+        placeholder={editing ? undefined : 'Reply... (**bold**, - lists, @mention)'}
+        className={`w-full text-sm border resize-none focus:outline-none focus:border-gray-400 ${
+          editing ? 'border-gray-300 rounded p-2 bg-white' : 'border-gray-200 rounded-2xl px-4 py-2'
+        }`}
+      />
+      {showSuggestions && (
+        <div
+          className={`absolute left-0 right-0 z-10 bg-white border border-gray-200 rounded shadow-lg py-1 ${
+            editing ? 'top-full mt-1' : 'bottom-full mb-1'
+          }`}
+        >
+          {suggestions.map((author, i) => (
+            <button
+              key={author.id}
+              // Keep focus (and the caret) in the textarea
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pickMention(author);
+              }}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs text-gray-700 ${
+                i === activeIndex ? 'bg-gray-100' : 'hover:bg-gray-50'
+              }`}
+            >
+              <AuthorAvatar author={author} />
+              <span className="truncate">{author.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  if (editing) {
+    return (
+      <div>
+        {textarea}
+        <div className="flex justify-end gap-2 mt-1">
+          <button onClick={onCancel} className="text-xs text-gray-500 hover:text-gray-700 px-2 py-1">
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!text.trim()}
+            className="text-xs bg-black text-white px-3 py-1 rounded hover:bg-gray-800 disabled:opacity-30"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-end gap-2">
+      {textarea}
+      <button
+        onClick={handleSubmit}
+        disabled={!text.trim()}
+        className="p-2 text-gray-500 hover:text-black disabled:opacity-30"
+        title="Send (Shift+Enter for a new line)"
+      >
+        <Send size={18} />
+      </button>
+    </div>
+  );
+}
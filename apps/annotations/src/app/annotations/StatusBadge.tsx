@@ -0,0 +1,15 @@
+import React from 'react';
+import { AnnotationStatus } from './types';
+import { STATUS_NAMES, STATUS_STYLES } from './status';
+
+interface StatusBadgeProps {
+  status: AnnotationStatus;
+}
+
+export default function StatusBadge({ status }: StatusBadgeProps) {
+  return (
+    <span className={`px-1.5 py-px rounded text-[10px] font-medium whitespace-nowrap ${STATUS_STYLES[status]}`}>
+      {STATUS_NAMES[status]}
+    </span>
+  );
+}
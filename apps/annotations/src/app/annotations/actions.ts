@@ -1,12 +1,49 @@
 'use server';
 
-// Note: File system writes don't work on Vercel's read-only production filesystem.
-// This file is kept for potential future database integration.
-// Currently, persistence is handled client-side via localStorage.
-
-export async function saveAnnotationsToServer(annotations: unknown[]) {
-  // In production, you would save to a database here
-  // Example: Vercel Postgres, Supabase, MongoDB, etc.
-  console.log('Server received annotations:', annotations.length);
-  return { success: true, message: 'Annotations received (stored client-side)' };
+import { getAnnotationStore } from './store';
+import { AnnotationDocument, validateAnnotation, validateAuthor, validateImageSize } from './schema';
+import { Annotation, Author, ImageSize } from './types';
+import { isImageId } from './ids';
+import { mergeLists } from './sync';
+
+// Note: The default JSON file store needs a writable filesystem, which Vercel's
+// production environment doesn't provide. Point ANNOTATIONS_STORE_FILE at a
+// writable path or plug a database adapter into ./store for those deployments.
+// The client keeps a localStorage copy as an offline cache.
+
+function assertImageId(imageId: string) {
+  if (!isImageId(imageId)) {
+    throw new Error(`Invalid image id: ${imageId}`);
+  }
+}
+
+function assertValid(errors: string[], what: string) {
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${what}: ${errors.join('; ')}`);
+  }
+}
+
+export async function listAnnotations(imageId: string): Promise<AnnotationDocument | null> {
+  assertImageId(imageId);
+  return getAnnotationStore().read(imageId);
+}
+
+// `annotations` (and the `deleted` ones) are in the source pixels of an image
+// of `imageSize`. They are merged into what is stored rather than replacing it
+// (see sync.ts), so saves from several browsers don't undo each other: only
+// the changes this save logged are taken, credited to `actor`, who is saving.
+export async function saveAnnotationsToServer(
+  imageId: string,
+  annotations: Annotation[],
+  deleted: Annotation[],
+  imageSize: ImageSize,
+  actor: Author
+) {
+  assertImageId(imageId);
+  assertValid(validateImageSize(imageSize), 'image size');
+  assertValid(validateAuthor(actor, 'actor'), 'actor');
+  annotations.forEach((a, i) => assertValid(validateAnnotation(a, `annotations[${i}]`), 'annotation'));
+  deleted.forEach((a, i) => assertValid(validateAnnotation(a, `deleted[${i}]`), 'annotation'));
+  const doc = await getAnnotationStore().update(imageId, stored => mergeLists(stored, { annotations, deleted }, e => ({ ...e, actor })), imageSize);
+  return { success: true, updatedAt: doc.updatedAt };
 }
@@ -0,0 +1,54 @@
+import { ActivityEvent, ActivityType, Annotation, Author, Highlight } from './types';
+import { createId } from './ids';
+import { getHighlightBounds } from './geometry';
+
+// The audit trail kept on each annotation. Events are only ever appended, by
+// whoever made the change; undoing a change is logged as a change of its own.
+
+export function createEvent(type: ActivityType, actor: Author, before?: string, after?: string): ActivityEvent {
+  return {
+    id: createId(),
+    type,
+    actor,
+    timestamp: Date.now(),
+    ...(before !== undefined && { before }),
+    ...(after !== undefined && { after }),
+  };
+}
+
+export function appendEvents(annotation: Annotation, events: ActivityEvent[]): Annotation {
+  if (events.length === 0) return annotation;
+  return { ...annotation, activity: [...(annotation.activity ?? []), ...events] };
+}
+
+// Position and size in source pixels, e.g. "120, 48 · 300×200"
+function describeBounds(highlight: Highlight): string {
+  const { minX, minY, maxX, maxY } = getHighlightBounds(highlight);
+  return `${Math.round(minX)}, ${Math.round(minY)} · ${Math.round(maxX - minX)}×${Math.round(maxY - minY)}`;
+}
+
+function highlightEvent(before: Highlight, after: Highlight, actor: Author): ActivityEvent {
+  const from = getHighlightBounds(before);
+  const to = getHighlightBounds(after);
+  const sameSize = Math.abs((from.maxX - from.minX) - (to.maxX - to.minX)) < 0.5
+    && Math.abs((from.maxY - from.minY) - (to.maxY - to.minY)) < 0.5;
+  return createEvent(sameSize ? 'moved' : 'reshaped', actor, describeBounds(before), describeBounds(after));
+}
+
+// The events for an edit of `before` into `after`. A label brings its color
+// along, so that color change isn't logged on its own.
+export function describeChanges(before: Annotation, after: Annotation, actor: Author): ActivityEvent[] {
+  const events: ActivityEvent[] = [];
+  if (after.text !== before.text) events.push(createEvent('text', actor, before.text, after.text));
+  if (after.status !== before.status) events.push(createEvent('status', actor, before.status, after.status));
+  // The highlight's own color follows the annotation's; only its shape counts here
+  const shape = (highlight: Highlight) => JSON.stringify({ ...highlight, color: null });
+  if (shape(after.highlight) !== shape(before.highlight)) {
+    events.push(highlightEvent(before.highlight, after.highlight, actor));
+  }
+  const labelChanged = after.label?.id !== before.label?.id;
+  if (labelChanged) events.push(createEvent('label', actor, before.label?.name, after.label?.name));
+  if (after.color !== before.color && !labelChanged) events.push(createEvent('color', actor, before.color, after.color));
+  if (after.severity !== before.severity) events.push(createEvent('severity', actor, before.severity, after.severity));
+  return events;
+}
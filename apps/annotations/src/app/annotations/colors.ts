@@ -0,0 +1,15 @@
+// Subtle highlight colors
+export const ANNOTATION_COLORS = [
+  'rgba(255, 180, 0, 0.25)',
+  'rgba(0, 200, 150, 0.25)',
+  'rgba(100, 150, 255, 0.25)',
+  'rgba(255, 100, 100, 0.25)',
+  'rgba(180, 100, 255, 0.25)',
+  'rgba(100, 220, 220, 0.25)',
+];
+
+// Highlight color for a label's #rrggbb color, in the same form as the above
+export function toHighlightColor(hex: string): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, 0.25)`;
+}
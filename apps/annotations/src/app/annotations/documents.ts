@@ -0,0 +1,157 @@
+import { useSyncExternalStore } from 'react';
+import {
+  AnnotationDocument,
+  createEmptyDocument,
+  encodeDocument,
+  parseAnnotationDocument,
+  ParseResult,
+} from './schema';
+
+// localStorage key for persistence. Each image gets its own document under
+// `${ANNOTATIONS_STORAGE_KEY}:${imageId}`; the bare key is the legacy global list.
+export const ANNOTATIONS_STORAGE_KEY = 'annotation-tool-data';
+
+export function documentStorageKey(imageId: string) {
+  return `${ANNOTATIONS_STORAGE_KEY}:${imageId}`;
+}
+
+// FNV-1a fallback for insecure contexts where crypto.subtle is unavailable
+function fnv1a(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Identify an image by the content of its file, so the same picture
+// always maps to the same annotation document regardless of its name.
+export async function computeImageId(blob: Blob): Promise<string> {
+  const buffer = await blob.arrayBuffer();
+
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  return `fnv-${fnv1a(new Uint8Array(buffer))}-${blob.size}`;
+}
+
+// Load, upgrade and validate the document saved for an image. The first image
+// opened after upgrading adopts the legacy global list so existing reviews are kept.
+export function loadAnnotationDocument(imageId: string): ParseResult {
+  const key = documentStorageKey(imageId);
+  let stored = localStorage.getItem(key);
+
+  if (stored === null) {
+    const legacy = localStorage.getItem(ANNOTATIONS_STORAGE_KEY);
+    if (legacy === null) {
+      return { document: createEmptyDocument(imageId), newlyQuarantined: [] };
+    }
+    localStorage.setItem(key, legacy);
+    localStorage.removeItem(ANNOTATIONS_STORAGE_KEY);
+    remeasure(key);
+    remeasure(ANNOTATIONS_STORAGE_KEY);
+    stored = legacy;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stored);
+  } catch {
+    // Keep the unparseable text so it can still be recovered by hand
+    raw = stored;
+  }
+  return parseAnnotationDocument(raw, imageId);
+}
+
+export function saveAnnotationDocument(doc: AnnotationDocument) {
+  const key = documentStorageKey(doc.imageId);
+  // Don't create empty documents for images that were only viewed
+  if (doc.annotations.length === 0 && doc.deleted.length === 0 && doc.quarantined.length === 0 && localStorage.getItem(key) === null) {
+    updateStorageUsage(doc.imageId, false);
+    return;
+  }
+  try {
+    localStorage.setItem(key, JSON.stringify(encodeDocument(doc)));
+  } catch (err) {
+    updateStorageUsage(doc.imageId, true);
+    throw err;
+  }
+  updateStorageUsage(doc.imageId, false);
+}
+
+// --- Storage usage ----------------------------------------------------------
+
+// Browsers allow a site roughly five million characters of localStorage, and
+// saving fails once it is full. Usage is counted in characters the same way.
+export const LOCAL_STORAGE_QUOTA = 5_000_000;
+
+export interface StorageUsage {
+  documentSize: number; // The current image's document
+  totalSize: number; // Everything this site keeps in localStorage
+  quota: number;
+  saveFailed: boolean; // The last save didn't fit
+}
+
+const usageListeners = new Set<() => void>();
+let usage: StorageUsage | null = null;
+
+// Characters kept under each key, counted in full once and then only for the
+// key just written, so a save costs the size of one document rather than of
+// everything stored. The small profile, label and last-image entries aren't
+// tracked as they change, which leaves the total off by at most their size.
+let keySizes: Map<string, number> | null = null;
+let totalSize = 0;
+
+const measure = (key: string) => key.length + (localStorage.getItem(key)?.length ?? 0);
+
+function recountStorage() {
+  keySizes = new Map();
+  totalSize = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i) ?? '';
+    const size = measure(key);
+    keySizes.set(key, size);
+    totalSize += size;
+  }
+}
+
+function remeasure(key: string) {
+  if (!keySizes) return;
+  const size = localStorage.getItem(key) === null ? 0 : measure(key);
+  totalSize += size - (keySizes.get(key) ?? 0);
+  keySizes.set(key, size);
+}
+
+// Other tabs write to the same storage
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', e => {
+    if (e.storageArea !== localStorage) return;
+    if (e.key === null) keySizes = null;
+    else remeasure(e.key);
+  });
+}
+
+function updateStorageUsage(imageId: string, saveFailed: boolean) {
+  const key = documentStorageKey(imageId);
+  if (keySizes) remeasure(key);
+  else recountStorage();
+  usage = { documentSize: keySizes?.get(key) ?? 0, totalSize, quota: LOCAL_STORAGE_QUOTA, saveFailed };
+  usageListeners.forEach(listener => listener());
+}
+
+function subscribeToUsage(listener: () => void) {
+  usageListeners.add(listener);
+  return () => {
+    usageListeners.delete(listener);
+  };
+}
+
+// Measured after each save; null until the first one
+export function useStorageUsage(): StorageUsage | null {
+  return useSyncExternalStore(subscribeToUsage, () => usage, () => null);
+}
@@ -0,0 +1,160 @@
+import { ArrowHighlight, BrushStroke, Highlight, PinHighlight, Point } from './types';
+import { getArrowHeadLength, getPinHead } from './geometry';
+
+// Canvas painting shared by the editor and the flattened image export.
+
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: BrushStroke, color: string) {
+  if (stroke.points.length < 2) return;
+  
+  // Ensure consistent rendering settings
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  if (stroke.pressures) {
+    drawPressureStroke(ctx, stroke.points, stroke.pressures, stroke.brushSize, color);
+    return;
+  }
+  
+  ctx.beginPath();
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.lineWidth = stroke.brushSize;
+  ctx.strokeStyle = color;
+  // Curve through the midpoints between points, so simplified strokes stay smooth
+  const { points } = stroke;
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length - 1; i++) {
+    ctx.quadraticCurveTo(points[i].x, points[i].y, (points[i].x + points[i + 1].x) / 2, (points[i].y + points[i + 1].y) / 2);
+  }
+  ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
+  ctx.stroke();
+}
+
+// Light pressure still leaves a visible line
+const getPressureWidth = (brushSize: number, pressure: number) => brushSize * (0.2 + 0.8 * pressure);
+
+// Variable-width stroke: a disc at every point joined by tapered quads, all in
+// one path so a translucent color doesn't darken where the pieces overlap.
+// Discs and quads share a winding direction so the nonzero fill unions them.
+function drawPressureStroke(ctx: CanvasRenderingContext2D, points: Point[], pressures: number[], brushSize: number, color: string) {
+  const radii = pressures.map(p => getPressureWidth(brushSize, p) / 2);
+  ctx.beginPath();
+  points.forEach((p, i) => {
+    ctx.moveTo(p.x + radii[i], p.y);
+    ctx.arc(p.x, p.y, radii[i], 0, Math.PI * 2);
+    if (i === 0) return;
+    const prev = points[i - 1];
+    const length = Math.hypot(p.x - prev.x, p.y - prev.y);
+    if (length === 0) return;
+    const nx = -(p.y - prev.y) / length;
+    const ny = (p.x - prev.x) / length;
+    ctx.moveTo(prev.x - nx * radii[i - 1], prev.y - ny * radii[i - 1]);
+    ctx.lineTo(p.x - nx * radii[i], p.y - ny * radii[i]);
+    ctx.lineTo(p.x + nx * radii[i], p.y + ny * radii[i]);
+    ctx.lineTo(prev.x + nx * radii[i - 1], prev.y + ny * radii[i - 1]);
+    ctx.closePath();
+  });
+  ctx.fillStyle = color;
+  ctx.fill('nonzero');
+}
+
+const withAlpha = (color: string, alpha: number) => color.replace(/[\d.]+\)$/g, `${alpha})`);
+
+// Fill and outline the current path the way rect highlights are drawn
+function fillShape(ctx: CanvasRenderingContext2D, color: string, alpha: number, scale: number) {
+  ctx.fillStyle = withAlpha(color, alpha);
+  ctx.fill();
+  ctx.strokeStyle = withAlpha(color, Math.min(alpha + 0.3, 1));
+  ctx.lineWidth = 2 * scale;
+  ctx.lineJoin = 'round';
+  ctx.stroke();
+}
+
+export function tracePolygon(ctx: CanvasRenderingContext2D, points: Point[], close = true) {
+  ctx.beginPath();
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  if (close) ctx.closePath();
+}
+
+export function drawArrow(ctx: CanvasRenderingContext2D, arrow: ArrowHighlight, color: string) {
+  const { start, end, lineWidth } = arrow;
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const headLength = getArrowHeadLength(lineWidth);
+  // Stop the shaft inside the head so its square end doesn't poke through the tip
+  const shaftEnd = {
+    x: end.x - Math.cos(angle) * headLength * 0.8,
+    y: end.y - Math.sin(angle) * headLength * 0.8,
+  };
+
+  ctx.beginPath();
+  ctx.lineCap = 'round';
+  ctx.lineWidth = lineWidth;
+  ctx.strokeStyle = color;
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(shaftEnd.x, shaftEnd.y);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(end.x, end.y);
+  ctx.lineTo(end.x - headLength * Math.cos(angle - Math.PI / 7), end.y - headLength * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(end.x - headLength * Math.cos(angle + Math.PI / 7), end.y - headLength * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fillStyle = color;
+  ctx.fill();
+}
+
+// Teardrop marker with its tip on the pinned spot; `scale` is image pixels per screen pixel
+export function drawPin(ctx: CanvasRenderingContext2D, pin: PinHighlight, alpha: number, scale: number) {
+  const head = getPinHead(pin, scale);
+  // Tangent points where the sides leave the head towards the tip
+  const distance = pin.y - head.y;
+  const spread = Math.acos(Math.min(1, head.radius / distance));
+
+  ctx.beginPath();
+  ctx.moveTo(pin.x, pin.y);
+  ctx.arc(head.x, head.y, head.radius, Math.PI / 2 + spread, Math.PI / 2 - spread);
+  ctx.closePath();
+  ctx.fillStyle = withAlpha(pin.color, alpha);
+  ctx.fill();
+  ctx.strokeStyle = `rgba(255, 255, 255, ${alpha})`;
+  ctx.lineWidth = 1.5 * scale;
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.arc(head.x, head.y, head.radius * 0.35, 0, Math.PI * 2);
+  ctx.fillStyle = `rgba(255, 255, 255, ${alpha})`;
+  ctx.fill();
+}
+
+// `scale` is image pixels per screen pixel, so outlines and pins keep a fixed screen size
+export function drawHighlight(ctx: CanvasRenderingContext2D, highlight: Highlight, opacity?: number, scale = 1) {
+  if (highlight.type === 'rect') {
+    const alpha = opacity ?? 0.25;
+    const color = withAlpha(highlight.color, alpha);
+    ctx.fillStyle = color;
+    ctx.fillRect(highlight.x, highlight.y, highlight.width, highlight.height);
+    ctx.strokeStyle = withAlpha(highlight.color, Math.min(alpha + 0.3, 1));
+    ctx.lineWidth = 2 * scale;
+    ctx.strokeRect(highlight.x, highlight.y, highlight.width, highlight.height);
+  } else if (highlight.type === 'ellipse') {
+    const { x, y, width, height } = highlight;
+    ctx.beginPath();
+    ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+    fillShape(ctx, highlight.color, opacity ?? 0.25, scale);
+  } else if (highlight.type === 'polygon' || highlight.type === 'lasso') {
+    tracePolygon(ctx, highlight.points);
+    fillShape(ctx, highlight.color, opacity ?? 0.25, scale);
+  } else if (highlight.type === 'pin') {
+    // Pins are small, so like arrows they stay strong at the default opacity
+    drawPin(ctx, highlight, Math.min((opacity ?? 0.25) * 3.5, 1), scale);
+  } else if (highlight.type === 'arrow') {
+    // Arrows have no fill area, so they are drawn stronger than the fills at the same opacity
+    drawArrow(ctx, highlight, withAlpha(highlight.color, Math.min((opacity ?? 0.25) * 3, 1)));
+  } else if (highlight.type === 'brush') {
+    const alpha = opacity ?? highlight.opacity;
+    const color = withAlpha(highlight.color, alpha);
+    for (const stroke of highlight.strokes) {
+      drawStroke(ctx, stroke, color);
+    }
+  }
+}
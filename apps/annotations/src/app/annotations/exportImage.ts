@@ -0,0 +1,192 @@
+import { Annotation, ImageSize } from './types';
+import { SEVERITY_NAMES } from './labels';
+import { isClosed, STATUS_NAMES } from './status';
+import { drawHighlight } from './drawing';
+import { getHighlightBounds } from './geometry';
+
+export interface AnnotatedImageOptions {
+  // Append a panel below the image listing each comment and its replies
+  includeLegend: boolean;
+}
+
+const LEGEND_BACKGROUND = '#ffffff';
+const LEGEND_TEXT = '#1f2937';
+const LEGEND_MUTED = '#6b7280';
+
+const solidColor = (color: string) => color.replace(/[\d.]+\)$/g, '1)');
+
+// Break text into lines that fit `maxWidth` with the context's current font
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function drawMarker(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, label: string, color: string) {
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = solidColor(color);
+  ctx.fill();
+  ctx.lineWidth = Math.max(2, radius * 0.15);
+  ctx.strokeStyle = '#ffffff';
+  ctx.stroke();
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(radius * 1.1)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, x, y);
+}
+
+interface LegendLine {
+  text: string;
+  indent: number;
+  muted: boolean;
+  marker?: { label: string; color: string };
+}
+
+function layoutLegend(
+  ctx: CanvasRenderingContext2D,
+  annotations: Annotation[],
+  width: number,
+  fontSize: number
+): LegendLine[] {
+  const padding = fontSize * 1.5;
+  const indent = fontSize * 2.2;
+  const lines: LegendLine[] = [];
+
+  annotations.forEach((ann, i) => {
+    ctx.font = `${fontSize}px sans-serif`;
+    // Label, severity and any status past Open lead the note, e.g. "[Crop · High · In Progress] Too tight"
+    const tags = [
+      ann.label?.name,
+      ann.severity && SEVERITY_NAMES[ann.severity],
+      ann.status !== 'open' && STATUS_NAMES[ann.status],
+    ].filter(Boolean).join(' · ');
+    const note = ann.text || '(no note)';
+    const textLines = wrapText(ctx, tags ? `[${tags}] ${note}` : note, width - padding * 2 - indent);
+    textLines.forEach((text, j) => lines.push({
+      text,
+      indent,
+      muted: !ann.text,
+      marker: j === 0 ? { label: String(i + 1), color: ann.color } : undefined,
+    }));
+
+    for (const reply of ann.replies) {
+      const replyLines = wrapText(ctx, reply.text, width - padding * 2 - indent * 1.5);
+      replyLines.forEach((text, j) => lines.push({
+        text: j === 0 ? `↳ ${text}` : text,
+        indent: indent * 1.5,
+        muted: true,
+      }));
+    }
+  });
+  return lines;
+}
+
+// Render the image at the size of `image` with every active annotation and a
+// numbered marker beside each, optionally followed by a legend panel.
+// `sourceSize` is the size the annotation coordinates refer to; `image` may be
+// a downscaled copy of that source.
+export function renderAnnotatedImage(
+  image: CanvasImageSource & { width: number; height: number },
+  sourceSize: ImageSize,
+  annotations: Annotation[],
+  { includeLegend }: AnnotatedImageOptions
+): HTMLCanvasElement {
+  const active = annotations.filter(a => !isClosed(a.status));
+  const width = image.width;
+  const imageHeight = image.height;
+
+  // Scale markers and text with the image so they stay legible on large files
+  const fontSize = Math.round(Math.min(48, Math.max(14, width / 60)));
+  const markerRadius = fontSize * 0.9;
+  const lineHeight = fontSize * 1.5;
+  const padding = fontSize * 1.5;
+  const pinScale = fontSize / 14; // Pins grow with the text, like the markers
+  const toImage = width / sourceSize.width;
+
+  const canvas = document.createElement('canvas');
+  const measureCtx = canvas.getContext('2d')!;
+  const legendLines = includeLegend && active.length > 0
+    ? layoutLegend(measureCtx, active, width, fontSize)
+    : [];
+  const legendHeight = legendLines.length > 0 ? legendLines.length * lineHeight + padding * 2 : 0;
+
+  canvas.width = width;
+  canvas.height = imageHeight + legendHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  ctx.drawImage(image, 0, 0, width, imageHeight);
+  ctx.save();
+  ctx.scale(toImage, toImage);
+  for (const ann of active) {
+    drawHighlight(ctx, ann.highlight, undefined, pinScale / toImage);
+  }
+  ctx.restore();
+
+  // Markers sit just outside the top-right corner of each highlight, kept on the image
+  active.forEach((ann, i) => {
+    const bounds = getHighlightBounds(ann.highlight, pinScale / toImage);
+    const x = Math.min(width - markerRadius, Math.max(markerRadius, bounds.maxX * toImage + markerRadius * 0.6));
+    const y = Math.min(imageHeight - markerRadius, Math.max(markerRadius, bounds.minY * toImage - markerRadius * 0.6));
+    drawMarker(ctx, x, y, markerRadius, String(i + 1), ann.color);
+  });
+
+  if (legendHeight > 0) {
+    ctx.fillStyle = LEGEND_BACKGROUND;
+    ctx.fillRect(0, imageHeight, width, legendHeight);
+
+    legendLines.forEach((line, i) => {
+      const y = imageHeight + padding + i * lineHeight + lineHeight / 2;
+      if (line.marker) {
+        drawMarker(ctx, padding + markerRadius * 0.6, y, markerRadius * 0.6, line.marker.label, line.marker.color);
+      }
+      ctx.font = `${fontSize}px sans-serif`;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = line.muted ? LEGEND_MUTED : LEGEND_TEXT;
+      ctx.fillText(line.text, padding + line.indent, y);
+    });
+  }
+
+  return canvas;
+}
+
+export function downloadAnnotatedImage(
+  image: CanvasImageSource & { width: number; height: number },
+  sourceSize: ImageSize,
+  annotations: Annotation[],
+  options: AnnotatedImageOptions
+): Promise<void> {
+  const canvas = renderAnnotatedImage(image, sourceSize, annotations, options);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Failed to create PNG from canvas'));
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `annotated-${new Date().toISOString().slice(0, 10)}.png`;
+      link.click();
+      URL.revokeObjectURL(url);
+      resolve();
+    }, 'image/png');
+  });
+}
@@ -0,0 +1,99 @@
+import { Annotation, AnnotationStatus, Highlight } from './types';
+import { SEVERITIES } from './schema';
+
+// Search, filters and sort orders for the annotation list
+
+export interface AnnotationFilter {
+  // Matched case-insensitively against the note, replies, author and label names
+  query: string;
+  authorId: string | null;
+  labelId: string | null;
+  highlightType: Highlight['type'] | null;
+  status: AnnotationStatus | null;
+  // Days as YYYY-MM-DD (from date inputs), inclusive, in local time
+  from: string;
+  to: string;
+}
+
+export const EMPTY_FILTER: AnnotationFilter = {
+  query: '',
+  authorId: null,
+  labelId: null,
+  highlightType: null,
+  status: null,
+  from: '',
+  to: '',
+};
+
+// 'default' is creation order for open annotations and most recently closed first for closed ones
+export type SortOrder = 'default' | 'newest' | 'oldest' | 'activity' | 'severity';
+
+export const SORT_ORDERS: { value: SortOrder; name: string }[] = [
+  { value: 'default', name: 'Default order' },
+  { value: 'newest', name: 'Newest first' },
+  { value: 'oldest', name: 'Oldest first' },
+  { value: 'activity', name: 'Latest activity' },
+  { value: 'severity', name: 'Most severe' },
+];
+
+export const HIGHLIGHT_TYPE_NAMES: Record<Highlight['type'], string> = {
+  rect: 'Rectangle',
+  ellipse: 'Ellipse',
+  arrow: 'Arrow',
+  polygon: 'Polygon',
+  lasso: 'Lasso',
+  pin: 'Pin',
+  brush: 'Brush',
+};
+
+// Number of filters in use besides the search text
+export function countActiveFilters(filter: AnnotationFilter): number {
+  return [filter.authorId, filter.labelId, filter.highlightType, filter.status, filter.from, filter.to].filter(Boolean).length;
+}
+
+export function isFilterActive(filter: AnnotationFilter): boolean {
+  return filter.query.trim() !== '' || countActiveFilters(filter) > 0;
+}
+
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`).getTime();
+
+export function matchesFilter(annotation: Annotation, filter: AnnotationFilter): boolean {
+  if (filter.authorId && annotation.author.id !== filter.authorId) return false;
+  if (filter.labelId && annotation.label?.id !== filter.labelId) return false;
+  if (filter.highlightType && annotation.highlight.type !== filter.highlightType) return false;
+  if (filter.status && annotation.status !== filter.status) return false;
+  if (filter.from && annotation.timestamp < startOfDay(filter.from)) return false;
+  if (filter.to && annotation.timestamp >= startOfDay(filter.to) + 24 * 60 * 60 * 1000) return false;
+
+  const query = filter.query.trim().toLowerCase();
+  if (!query) return true;
+  const haystack = [
+    annotation.text,
+    annotation.author.name,
+    annotation.label?.name ?? '',
+    ...annotation.replies.flatMap(r => [r.text, r.author.name]),
+  ];
+  return haystack.some(text => text.toLowerCase().includes(query));
+}
+
+const lastActivity = (a: Annotation) =>
+  Math.max(a.timestamp, a.statusChangedAt ?? 0, ...a.replies.map(r => r.timestamp), ...(a.activity ?? []).map(e => e.timestamp));
+
+const severityRank = (a: Annotation) => (a.severity ? SEVERITIES.indexOf(a.severity) : -1);
+
+// A sorted copy; 'default' keeps the given order. Ties keep it too.
+export function sortAnnotations(annotations: Annotation[], order: SortOrder): Annotation[] {
+  const sorted = [...annotations];
+  switch (order) {
+    case 'newest':
+      return sorted.sort((a, b) => b.timestamp - a.timestamp);
+    case 'oldest':
+      return sorted.sort((a, b) => a.timestamp - b.timestamp);
+    case 'activity':
+      return sorted.sort((a, b) => lastActivity(b) - lastActivity(a));
+    case 'severity':
+      return sorted.sort((a, b) => severityRank(b) - severityRank(a));
+    default:
+      return sorted;
+  }
+}
@@ -0,0 +1,292 @@
+import { BoxHighlight, BrushStroke, Highlight, ImageSize, PinHighlight, Point, RectHighlight } from './types';
+
+// Check if a point is near a line segment
+export function distanceToLineSegment(point: Point, p1: Point, p2: Point): number {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const lengthSquared = dx * dx + dy * dy;
+  
+  if (lengthSquared === 0) {
+    // p1 and p2 are the same point
+    return Math.sqrt((point.x - p1.x) ** 2 + (point.y - p1.y) ** 2);
+  }
+  
+  // Project point onto the line segment
+  let t = ((point.x - p1.x) * dx + (point.y - p1.y) * dy) / lengthSquared;
+  t = Math.max(0, Math.min(1, t));
+  
+  const projX = p1.x + t * dx;
+  const projY = p1.y + t * dy;
+  
+  return Math.sqrt((point.x - projX) ** 2 + (point.y - projY) ** 2);
+}
+
+// Hit distance from a stroke's centerline: its radius plus a small buffer for easier clicking
+export const getStrokeHitRadius = (brushSize: number) => brushSize / 2 + 5;
+
+// Hit distance from an arrow's shaft, wide enough to cover the head
+export const getArrowHitRadius = (lineWidth: number) => Math.max(lineWidth, getArrowHeadLength(lineWidth) / 2) + 5;
+
+// Check if a point is near a brush stroke (within brush radius)
+export function isPointNearStroke(point: Point, stroke: BrushStroke): boolean {
+  const threshold = getStrokeHitRadius(stroke.brushSize);
+  
+  for (let i = 0; i < stroke.points.length - 1; i++) {
+    const dist = distanceToLineSegment(point, stroke.points[i], stroke.points[i + 1]);
+    if (dist <= threshold) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Check if a point is inside a rectangle
+export function isPointInRect(point: Point, rect: RectHighlight): boolean {
+  return point.x >= rect.x && 
+         point.x <= rect.x + rect.width && 
+         point.y >= rect.y && 
+         point.y <= rect.y + rect.height;
+}
+
+// Check if a point is inside the ellipse inscribed in a box
+export function isPointInEllipse(point: Point, box: BoxHighlight): boolean {
+  const rx = box.width / 2;
+  const ry = box.height / 2;
+  if (rx <= 0 || ry <= 0) return false;
+  const nx = (point.x - (box.x + rx)) / rx;
+  const ny = (point.y - (box.y + ry)) / ry;
+  return nx * nx + ny * ny <= 1;
+}
+
+// Even-odd ray casting, so self-intersecting lassos behave like their fill
+export function isPointInPolygon(point: Point, vertices: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Pin marker size in screen pixels: a round head above a tip at the pinned spot.
+// Callers pass `scale` (image pixels per screen pixel) to size it on the canvas.
+export const PIN_HEAD_RADIUS = 9;
+export const PIN_HEIGHT = 28;
+
+export function getPinHead(pin: PinHighlight, scale = 1): { x: number; y: number; radius: number } {
+  const radius = PIN_HEAD_RADIUS * scale;
+  return { x: pin.x, y: pin.y - (PIN_HEIGHT * scale - radius), radius };
+}
+
+// Arrowhead size scales with the shaft so thin and thick arrows look alike
+export function getArrowHeadLength(lineWidth: number): number {
+  return Math.max(12, lineWidth * 4);
+}
+
+export const isBoxHighlight = (highlight: Highlight): highlight is BoxHighlight =>
+  highlight.type === 'rect' || highlight.type === 'ellipse';
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Axis-aligned bounds of a highlight in image pixels (brush strokes include their radius).
+// `scale` sizes screen-fixed pin markers; see getPinHead.
+export function getHighlightBounds(highlight: Highlight, scale = 1): Bounds {
+  let minX = Infinity, maxX = -Infinity;
+  let minY = Infinity, maxY = -Infinity;
+  const include = (p: Point, pad = 0) => {
+    if (p.x - pad < minX) minX = p.x - pad;
+    if (p.x + pad > maxX) maxX = p.x + pad;
+    if (p.y - pad < minY) minY = p.y - pad;
+    if (p.y + pad > maxY) maxY = p.y + pad;
+  };
+
+  switch (highlight.type) {
+    case 'rect':
+    case 'ellipse': {
+      const { x, y, width, height } = highlight;
+      return { minX: x, minY: y, maxX: x + width, maxY: y + height };
+    }
+    case 'arrow':
+      include(highlight.start, highlight.lineWidth / 2);
+      // The head is wider than the shaft
+      include(highlight.end, getArrowHeadLength(highlight.lineWidth) / 2);
+      break;
+    case 'polygon':
+    case 'lasso':
+      highlight.points.forEach(p => include(p));
+      break;
+    case 'pin': {
+      const head = getPinHead(highlight, scale);
+      return {
+        minX: highlight.x - head.radius,
+        minY: head.y - head.radius,
+        maxX: highlight.x + head.radius,
+        maxY: highlight.y,
+      };
+    }
+    case 'brush':
+      for (const stroke of highlight.strokes) {
+        stroke.points.forEach(p => include(p, stroke.brushSize / 2));
+      }
+      break;
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+// Hit test a point against a highlight: filled shapes by area,
+// brushes and arrows by their stroke, pins by their marker
+export function isPointInHighlight(point: Point, highlight: Highlight, scale = 1): boolean {
+  switch (highlight.type) {
+    case 'rect':
+      return isPointInRect(point, highlight);
+    case 'ellipse':
+      return isPointInEllipse(point, highlight);
+    case 'arrow':
+      return distanceToLineSegment(point, highlight.start, highlight.end) <= getArrowHitRadius(highlight.lineWidth);
+    case 'polygon':
+    case 'lasso':
+      return isPointInPolygon(point, highlight.points);
+    case 'pin': {
+      const head = getPinHead(highlight, scale);
+      const nearHead = Math.hypot(point.x - head.x, point.y - head.y) <= head.radius + 3 * scale;
+      return nearHead || distanceToLineSegment(point, head, highlight) <= 4 * scale;
+    }
+    case 'brush':
+      return highlight.strokes.some(stroke => isPointNearStroke(point, stroke));
+  }
+}
+
+export function translateHighlight(highlight: Highlight, dx: number, dy: number): Highlight {
+  const move = (p: Point): Point => ({ ...p, x: p.x + dx, y: p.y + dy });
+  switch (highlight.type) {
+    case 'rect':
+    case 'ellipse':
+    case 'pin':
+      return { ...highlight, x: highlight.x + dx, y: highlight.y + dy };
+    case 'arrow':
+      return { ...highlight, start: move(highlight.start), end: move(highlight.end) };
+    case 'polygon':
+    case 'lasso':
+      return { ...highlight, points: highlight.points.map(move) };
+    case 'brush':
+      return {
+        ...highlight,
+        strokes: highlight.strokes.map(stroke => ({ ...stroke, points: stroke.points.map(move) })),
+      };
+  }
+}
+
+// Scale every coordinate and width by `factor`, e.g. between canvas and source image pixels
+export function scaleHighlight(highlight: Highlight, factor: number): Highlight {
+  const scale = (p: Point): Point => ({ ...p, x: p.x * factor, y: p.y * factor });
+  switch (highlight.type) {
+    case 'rect':
+    case 'ellipse':
+      return {
+        ...highlight,
+        x: highlight.x * factor,
+        y: highlight.y * factor,
+        width: highlight.width * factor,
+        height: highlight.height * factor,
+      };
+    case 'pin':
+      return { ...highlight, x: highlight.x * factor, y: highlight.y * factor };
+    case 'arrow':
+      return {
+        ...highlight,
+        start: scale(highlight.start),
+        end: scale(highlight.end),
+        lineWidth: highlight.lineWidth * factor,
+      };
+    case 'polygon':
+    case 'lasso':
+      return { ...highlight, points: highlight.points.map(scale) };
+    case 'brush':
+      return {
+        ...highlight,
+        strokes: highlight.strokes.map(stroke => ({
+          ...stroke,
+          points: stroke.points.map(scale),
+          brushSize: stroke.brushSize * factor,
+        })),
+      };
+  }
+}
+
+// --- Source image and canvas sizes ------------------------------------------
+
+// Largest canvas the editor draws annotations on or exports; bigger images are
+// downscaled to fit. Most browsers can handle up to ~16,384px, but we'll be conservative.
+export const MAX_CANVAS_DIMENSION = 8192;
+
+// Canvas size for an image of the given size
+export function getCanvasSize({ width, height }: ImageSize): ImageSize {
+  if (width <= MAX_CANVAS_DIMENSION && height <= MAX_CANVAS_DIMENSION) return { width, height };
+  const ratio = Math.min(MAX_CANVAS_DIMENSION / width, MAX_CANVAS_DIMENSION / height);
+  return { width: Math.floor(width * ratio), height: Math.floor(height * ratio) };
+}
+
+// --- Box resize handles (rects and ellipses) ---------------------------------
+
+export type ResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+export const HANDLE_CURSORS: Record<ResizeHandle, string> = {
+  nw: 'nwse-resize', se: 'nwse-resize',
+  ne: 'nesw-resize', sw: 'nesw-resize',
+  n: 'ns-resize', s: 'ns-resize',
+  e: 'ew-resize', w: 'ew-resize',
+};
+
+export function getHandlePosition(rect: BoxHighlight, handle: ResizeHandle): Point {
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+  const x = handle.includes('w') ? rect.x : handle.includes('e') ? rect.x + rect.width : cx;
+  const y = handle.includes('n') ? rect.y : handle.includes('s') ? rect.y + rect.height : cy;
+  return { x, y };
+}
+
+// Find the handle under a point; `radius` is in image pixels
+export function findHandleAtPoint(rect: BoxHighlight, point: Point, radius: number): ResizeHandle | null {
+  for (const handle of RESIZE_HANDLES) {
+    const pos = getHandlePosition(rect, handle);
+    if (Math.abs(point.x - pos.x) <= radius && Math.abs(point.y - pos.y) <= radius) {
+      return handle;
+    }
+  }
+  return null;
+}
+
+// Drag one handle of `original` by (dx, dy). Dragging past the opposite edge
+// flips the box instead of producing a negative size.
+export function resizeBox<T extends BoxHighlight>(original: T, handle: ResizeHandle, dx: number, dy: number, minSize = 10): T {
+  let left = original.x;
+  let top = original.y;
+  let right = original.x + original.width;
+  let bottom = original.y + original.height;
+
+  if (handle.includes('w')) left += dx;
+  if (handle.includes('e')) right += dx;
+  if (handle.includes('n')) top += dy;
+  if (handle.includes('s')) bottom += dy;
+
+  const x = Math.min(left, right);
+  const y = Math.min(top, bottom);
+  return {
+    ...original,
+    x,
+    y,
+    width: Math.max(minSize, Math.abs(right - left)),
+    height: Math.max(minSize, Math.abs(bottom - top)),
+  };
+}
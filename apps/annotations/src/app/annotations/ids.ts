@@ -0,0 +1,24 @@
+// Collision-free ids for annotations and replies. Date.now() alone repeats
+// when two items are created within the same millisecond.
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // randomUUID is missing in insecure contexts; fall back to time + randomness
+  const random = Array.from({ length: 4 }, () =>
+    Math.floor(Math.random() * 0x100000000).toString(16).padStart(8, '0')
+  ).join('');
+  return `${Date.now().toString(16)}-${random}`;
+}
+
+// Image ids are content hashes (see computeImageId); anything else is rejected
+// before it reaches a storage key or file path.
+export function isImageId(value: string): boolean {
+  return /^[\w-]{1,128}$/.test(value);
+}
+
+// SHA-256 ids, the only ones the server can check an image against. The FNV
+// fallback is too short to stop someone forging bytes that match it.
+export function isSha256ImageId(value: string): boolean {
+  return /^[0-9a-f]{64}$/.test(value);
+}
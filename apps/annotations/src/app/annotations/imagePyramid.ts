@@ -0,0 +1,126 @@
+import { ImageSize } from './types';
+
+// Client side of pyramid.worker.ts. Each opened image gets its own worker,
+// which holds the decoded image and answers requests for tiles or for the
+// whole image at a reduced size.
+
+export const TILE_SIZE = 256; // Pixels of the tile's own level
+
+export type PyramidRequest =
+  | { id: number; type: 'open'; blob: Blob }
+  // A region of one level, in that level's pixels
+  | { id: number; type: 'tile'; level: number; x: number; y: number; width: number; height: number }
+  | { id: number; type: 'image'; maxDimension: number };
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+export type PyramidResponse =
+  | { id: number; type: 'opened'; width: number; height: number }
+  | { id: number; type: 'bitmap'; bitmap: ImageBitmap }
+  | { id: number; type: 'error'; message: string };
+
+export interface ImagePyramid {
+  // Intrinsic size of the image (level 0)
+  size: ImageSize;
+  // Levels 0 to levelCount - 1; the last fits in a single tile
+  levelCount: number;
+  // Tiles on the right and bottom edges of a level may be smaller than TILE_SIZE
+  getTile: (level: number, col: number, row: number) => Promise<ImageBitmap>;
+  // Any region of a level, in that level's pixels
+  getRegion: (level: number, x: number, y: number, width: number, height: number) => Promise<ImageBitmap>;
+  // The whole image scaled down to fit `maxDimension` on its longer side
+  getImage: (maxDimension: number) => Promise<ImageBitmap>;
+  dispose: () => void;
+}
+
+// Size of a level, rounding up like the worker does when it halves a level
+export function getLevelSize(size: ImageSize, level: number): ImageSize {
+  let { width, height } = size;
+  for (let i = 0; i < level; i++) {
+    width = Math.ceil(width / 2);
+    height = Math.ceil(height / 2);
+  }
+  return { width, height };
+}
+
+export async function createImagePyramid(blob: Blob): Promise<ImagePyramid> {
+  const worker = new Worker(new URL('./pyramid.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (response: PyramidResponse) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+  let disposed = false;
+
+  worker.addEventListener('message', (e: MessageEvent<PyramidResponse>) => {
+    const response = e.data;
+    const request = pending.get(response.id);
+    if (!request) {
+      if (response.type === 'bitmap') response.bitmap.close();
+      return;
+    }
+    pending.delete(response.id);
+    if (response.type === 'error') request.reject(new Error(response.message));
+    else request.resolve(response);
+  });
+  worker.addEventListener('error', e => {
+    const error = new Error(e.message || 'Image worker failed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  });
+
+  const send = (request: WithoutId<PyramidRequest>): Promise<PyramidResponse> => {
+    if (disposed) return Promise.reject(new Error('Image pyramid was disposed'));
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      worker.postMessage({ ...request, id });
+    });
+  };
+
+  const getBitmap = async (request: WithoutId<PyramidRequest>) => {
+    const response = await send(request);
+    if (response.type !== 'bitmap') throw new Error(`Unexpected ${response.type} response`);
+    return response.bitmap;
+  };
+
+  const dispose = () => {
+    disposed = true;
+    worker.terminate();
+    const error = new Error('Image pyramid was disposed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  let opened: PyramidResponse;
+  try {
+    opened = await send({ type: 'open', blob });
+  } catch (err) {
+    dispose();
+    throw err;
+  }
+  if (opened.type !== 'opened') {
+    dispose();
+    throw new Error(`Unexpected ${opened.type} response`);
+  }
+
+  const size = { width: opened.width, height: opened.height };
+  const getRegion = (level: number, x: number, y: number, width: number, height: number) =>
+    getBitmap({ type: 'tile', level, x, y, width, height });
+  let levelCount = 1;
+  for (let s = size; Math.max(s.width, s.height) > TILE_SIZE; s = getLevelSize(s, 1)) levelCount++;
+
+  return {
+    size,
+    levelCount,
+    getTile: (level, col, row) => {
+      const levelSize = getLevelSize(size, level);
+      const x = col * TILE_SIZE;
+      const y = row * TILE_SIZE;
+      const width = Math.min(TILE_SIZE, levelSize.width - x);
+      const height = Math.min(TILE_SIZE, levelSize.height - y);
+      if (width <= 0 || height <= 0) return Promise.reject(new Error(`Tile ${level}/${col}/${row} is outside the image`));
+      return getRegion(level, x, y, width, height);
+    },
+    getRegion,
+    getImage: (maxDimension) => getBitmap({ type: 'image', maxDimension }),
+    dispose,
+  };
+}
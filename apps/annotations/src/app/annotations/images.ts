@@ -0,0 +1,107 @@
+import { isImageId, isSha256ImageId } from './ids';
+
+// Keeps the images behind each review so a reload (or a shared ?image= link)
+// shows the right picture under its annotations. Images live in IndexedDB in
+// this browser and are uploaded to the server's image store.
+
+export const DEFAULT_IMAGE = '/annotation/ChatGPT Image Nov 24, 2025, 03_40_33 PM.jpeg';
+
+const DB_NAME = 'annotation-tool-images';
+const DB_STORE = 'images';
+const LAST_IMAGE_KEY = 'annotation-tool-last-image';
+
+export const imageUrl = (imageId: string) => `/annotations/images/${imageId}`;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function getCachedImage(imageId: string): Promise<Blob | null> {
+  const result = await withStore<unknown>('readonly', store => store.get(imageId));
+  return result instanceof Blob ? result : null;
+}
+
+export function cacheImage(imageId: string, blob: Blob): Promise<IDBValidKey> {
+  return withStore('readwrite', store => store.put(blob, imageId));
+}
+
+// The server only takes images it can check against their ids, so those
+// opened where SHA-256 was unavailable stay in this browser
+async function uploadImage(imageId: string, blob: Blob) {
+  if (!isSha256ImageId(imageId)) return;
+  const head = await fetch(imageUrl(imageId), { method: 'HEAD' });
+  if (head.ok) return;
+  const res = await fetch(imageUrl(imageId), {
+    method: 'PUT',
+    headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+    body: blob,
+  });
+  if (!res.ok) throw new Error(`Image upload failed: ${res.status} ${await res.text()}`);
+}
+
+export function getLastImageId(): string | null {
+  return localStorage.getItem(LAST_IMAGE_KEY);
+}
+
+// Remember the image locally, on the server, and as the one to reopen next time
+export async function persistImage(imageId: string, blob: Blob): Promise<void> {
+  localStorage.setItem(LAST_IMAGE_KEY, imageId);
+  const cached = await getCachedImage(imageId).catch(() => null);
+  const results = await Promise.allSettled([
+    cached ? Promise.resolve() : cacheImage(imageId, blob),
+    uploadImage(imageId, blob),
+  ]);
+  for (const result of results) {
+    if (result.status === 'rejected') console.error("Failed to persist image:", result.reason);
+  }
+}
+
+// Look an image up by id: this browser first, then the server
+export async function loadStoredImage(imageId: string): Promise<Blob | null> {
+  const cached = await getCachedImage(imageId).catch(err => {
+    console.error("Failed to read image cache:", err);
+    return null;
+  });
+  if (cached) return cached;
+
+  const res = await fetch(imageUrl(imageId));
+  if (!res.ok) return null;
+  const blob = await res.blob();
+  cacheImage(imageId, blob).catch(err => console.error("Failed to cache image:", err));
+  return blob;
+}
+
+// What to show on startup: `?image=` (an image id or a URL), otherwise the
+// last image opened in this browser, otherwise the bundled default.
+export async function resolveInitialImage(param: string | null): Promise<string | Blob> {
+  if (param && !isImageId(param)) return param;
+
+  const imageId = param ?? getLastImageId();
+  if (imageId) {
+    const blob = await loadStoredImage(imageId).catch(err => {
+      console.error("Failed to load stored image:", err);
+      return null;
+    });
+    if (blob) return blob;
+    if (param) alert('That image could not be found. Showing the default image instead.');
+  }
+  return DEFAULT_IMAGE;
+}
@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import { getImageStore } from '../../store';
+import { isImageId, isSha256ImageId } from '../../ids';
+
+// Original image bytes for a review, addressed by the id from computeImageId.
+//   GET  /annotations/images/:imageId  -> the image
+//   HEAD /annotations/images/:imageId  -> 200 if stored, 404 otherwise
+//   PUT  /annotations/images/:imageId  -> store the request body
+
+const MAX_IMAGE_SIZE = 50 * 1024 * 1024; // Matches the upload limit in the editor
+
+// Raster formats only: an SVG (or anything else a browser would run script
+// in) must never be served from this origin
+const IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/gif']);
+
+interface RouteContext {
+  params: Promise<{ imageId: string }>;
+}
+
+async function resolveImageId(context: RouteContext): Promise<string | null> {
+  const { imageId } = await context.params;
+  return isImageId(imageId) ? imageId : null;
+}
+
+// The request body, or null once it passes `limit` bytes, read without
+// buffering more than that
+async function readBody(request: Request, limit: number): Promise<Uint8Array | null> {
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > limit) return null;
+  if (!request.body) return new Uint8Array(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function GET(_request: Request, context: RouteContext) {
+  const imageId = await resolveImageId(context);
+  if (!imageId) return new Response('Invalid image id', { status: 400 });
+
+  const image = await getImageStore().read(imageId);
+  // Anything stored before types were checked is left unserved
+  if (!image || !IMAGE_TYPES.has(image.contentType)) return new Response('Not found', { status: 404 });
+  return new Response(Buffer.from(image.data), {
+    headers: {
+      'Content-Type': image.contentType,
+      // Content-addressed, so the bytes for an id never change
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      // Never sniffed into something else, and inert if opened directly
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': "default-src 'none'; sandbox",
+    },
+  });
+}
+
+export async function HEAD(_request: Request, context: RouteContext) {
+  const imageId = await resolveImageId(context);
+  if (!imageId) return new Response(null, { status: 400 });
+  const found = await getImageStore().has(imageId);
+  return new Response(null, { status: found ? 200 : 404 });
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  const imageId = await resolveImageId(context);
+  // Only ids that can be checked, so one image can't be stored under another's id
+  if (!imageId || !isSha256ImageId(imageId)) return new Response('Invalid image id', { status: 400 });
+
+  const contentType = (request.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+  if (!IMAGE_TYPES.has(contentType)) {
+    return new Response('Expected a PNG, JPEG, WebP or GIF image', { status: 415 });
+  }
+  const data = await readBody(request, MAX_IMAGE_SIZE);
+  if (!data || data.byteLength === 0) {
+    return new Response('Image is empty or too large', { status: 413 });
+  }
+
+  const digest = createHash('sha256').update(data).digest('hex');
+  if (digest !== imageId) return new Response('Image does not match its id', { status: 422 });
+
+  try {
+    await getImageStore().write(imageId, { data, contentType });
+  } catch (err) {
+    console.error('Failed to store image:', err);
+    return new Response('Failed to store image', { status: 500 });
+  }
+  return new Response(null, { status: 204 });
+}
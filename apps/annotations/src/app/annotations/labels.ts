@@ -0,0 +1,81 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { Label, Severity } from './types';
+import { validateLabel } from './schema';
+
+// The local user's label categories, kept per browser like the profile.
+// Annotations store a copy of the label they were filed under.
+export const LABELS_STORAGE_KEY = 'annotation-tool-labels';
+
+export const LABEL_COLORS = ['#f59e0b', '#10b981', '#3b82f6', '#ef4444', '#a855f7', '#06b6d4', '#ec4899', '#6b7280'];
+
+export const DEFAULT_LABELS: Label[] = [
+  { id: 'retouch', name: 'Retouch', color: '#a855f7' },
+  { id: 'color', name: 'Color', color: '#f59e0b' },
+  { id: 'crop', name: 'Crop', color: '#3b82f6' },
+  { id: 'typo', name: 'Typo', color: '#ef4444' },
+];
+
+export const SEVERITY_NAMES: Record<Severity, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical',
+};
+
+// Chip classes, escalating from grey to red
+export const SEVERITY_STYLES: Record<Severity, string> = {
+  low: 'bg-gray-100 text-gray-600',
+  medium: 'bg-amber-100 text-amber-700',
+  high: 'bg-orange-100 text-orange-700',
+  critical: 'bg-red-600 text-white',
+};
+
+const listeners = new Set<() => void>();
+
+let cachedRaw: string | null = null;
+let cachedLabels: Label[] = DEFAULT_LABELS;
+
+function readLabels(): Label[] {
+  const raw = localStorage.getItem(LABELS_STORAGE_KEY);
+  if (raw === cachedRaw) return cachedLabels;
+  cachedRaw = raw;
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    cachedLabels = Array.isArray(parsed) && parsed.every(l => validateLabel(l).length === 0)
+      ? (parsed as Label[])
+      : DEFAULT_LABELS;
+  } catch {
+    cachedLabels = DEFAULT_LABELS;
+  }
+  return cachedLabels;
+}
+
+export function saveLabels(labels: Label[]) {
+  localStorage.setItem(LABELS_STORAGE_KEY, JSON.stringify(labels));
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === LABELS_STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+// The defaults until the user changes the set
+export function useLabels() {
+  const labels = useSyncExternalStore(subscribe, readLabels, () => DEFAULT_LABELS);
+  const setLabels = useCallback((next: Label[]) => {
+    try {
+      saveLabels(next);
+    } catch (err) {
+      console.error("Failed to save labels:", err);
+    }
+  }, []);
+  return { labels, setLabels };
+}
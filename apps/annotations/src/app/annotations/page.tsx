@@ -1,71 +1,383 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import AnnotationEditor from './AnnotationEditor';
 import AnnotationChat from './AnnotationChat';
 import AnnotationsPanelHeader from './AnnotationsPanelHeader';
-import { Annotation, Reply } from './types';
-// localStorage key for persistence
-const ANNOTATIONS_STORAGE_KEY = 'annotation-tool-data';
-import { ChevronRight, ChevronLeft, MessageSquare, CheckCircle, MessageCircle, RefreshCw } from 'lucide-react';
+import AuthorAvatar from './AuthorAvatar';
+import AuthorProfileDialog from './AuthorProfileDialog';
+import LabelsDialog from './LabelsDialog';
+import LabelChips from './LabelChips';
+import StatusBadge from './StatusBadge';
+import { Annotation, AnnotationStatus, Author, ImageSize, Label, Reply, Severity } from './types';
+import { loadAnnotationDocument, saveAnnotationDocument, useStorageUsage } from './documents';
+import { mergeLists } from './sync';
+import { listAnnotations, saveAnnotationsToServer } from './actions';
+import {
+  adoptImageSize,
+  AnnotationLists,
+  CURRENT_DOCUMENT_VERSION,
+  createEmptyDocument,
+  ParseResult,
+  QuarantinedEntry,
+  STATUSES,
+  UNKNOWN_AUTHOR,
+} from './schema';
+import { useAuthorProfile } from './profile';
+import { useLabels } from './labels';
+import { canTransition, CLOSED_STATUSES, groupByStatus, isClosed, OPEN_STATUSES, STATUS_NAMES } from './status';
+import { toHighlightColor } from './colors';
+import {
+  AnnotationFilter,
+  countActiveFilters,
+  EMPTY_FILTER,
+  HIGHLIGHT_TYPE_NAMES,
+  isFilterActive,
+  matchesFilter,
+  SORT_ORDERS,
+  SortOrder,
+  sortAnnotations,
+} from './filters';
+import { persistImage, resolveInitialImage } from './images';
+import { createId } from './ids';
+import { useAnnotationHistory } from './useAnnotationHistory';
+import { getHighlightBounds } from './geometry';
+import { exportWebAnnotationCollection, importWebAnnotations } from './webAnnotation';
+import { ChevronRight, ChevronLeft, MessageSquare, CheckCircle, MessageCircle, RefreshCw, AlertTriangle, X, RotateCcw, Eye, EyeOff, Search, SlidersHorizontal } from 'lucide-react';
 
-export default function AnnotationsPage() {
-  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+const formatClosedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Heads each status's run of cards in the panel
+function StatusGroupHeader({ status, count }: { status: AnnotationStatus; count: number }) {
+  return (
+    <div className="flex items-center gap-1.5 pt-1">
+      <StatusBadge status={status} />
+      <span className="text-[10px] text-gray-400">{count}</span>
+    </div>
+  );
+}
+
+function AnnotationsContent() {
+  const searchParams = useSearchParams();
+  const imageParam = searchParams.get('image');
+  const [imageSource, setImageSource] = useState<string | Blob | null>(null);
+  const [imageId, setImageId] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<ImageSize | null>(null); // Source pixels, which coordinates are in
+  const [quarantined, setQuarantined] = useState<QuarantinedEntry[]>([]);
+  const [quarantineNotice, setQuarantineNotice] = useState(0); // Entries set aside on this load
+  const [serverSaveFailed, setServerSaveFailed] = useState(false); // The last server save for this image didn't go through
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [extendingId, setExtendingId] = useState<string | null>(null); // Brush annotation receiving new strokes
   const [chatPosition, setChatPosition] = useState<{ x: number; y: number } | null>(null);
   const [customChatPositions, setCustomChatPositions] = useState<Record<string, { x: number, y: number }>>({});
   const [panelOpen, setPanelOpen] = useState(false);
+  const [panelTab, setPanelTab] = useState<'open' | 'closed'>('open');
+  const [showClosed, setShowClosed] = useState(false); // Ghost closed annotations on the canvas
+  const [filter, setFilter] = useState<AnnotationFilter>(EMPTY_FILTER);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('default');
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const { profile, setProfile } = useAuthorProfile();
+  const storageUsage = useStorageUsage();
+  const [editingProfile, setEditingProfile] = useState(false);
+  const { labels, setLabels } = useLabels();
+  const [editingLabels, setEditingLabels] = useState(false);
+  const author = profile ?? UNKNOWN_AUTHOR;
+  const { annotations, deleted, canUndo, canRedo, execute, update, remove, undo, redo, reset } = useAnnotationHistory(author);
   const [confirmingId, setConfirmingId] = useState<string | null>(null);
   const [viewTick, setViewTick] = useState(0);
   const editorRef = useRef<HTMLDivElement>(null);
+  const imageIdRef = useRef<string | null>(null);
+  const serverSnapshotRef = useRef<Annotation[] | null>(null); // Last list the server is known to hold
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const serverSaveRef = useRef<{ imageId: string; timeout: NodeJS.Timeout; save: () => void; beacon: () => boolean } | null>(null);
+  const serverLoadingRef = useRef<string | null>(null); // Image whose server copy hasn't arrived yet
+  // As last rendered, for saves and merges started outside render
+  const authorRef = useRef(author);
+  const listsRef = useRef<AnnotationLists>({ annotations, deleted });
 
-  const selectedAnnotation = annotations.find(a => a.id === selectedId && !a.completed);
-  const activeAnnotations = annotations.filter(a => !a.completed);
+  useEffect(() => {
+    authorRef.current = author;
+  }, [author]);
 
-  // Load annotations from localStorage on mount
   useEffect(() => {
+    listsRef.current = { annotations, deleted };
+  }, [annotations, deleted]);
+
+  const selectedAnnotation = annotations.find(a => a.id === selectedId && (!isClosed(a.status) || showClosed));
+  const activeAnnotations = annotations.filter(a => !isClosed(a.status));
+
+  // Everyone who has written an annotation here, for the author filter
+  const authors = Array.from(new Map<string, Author>(annotations.map(a => [a.author.id, a.author])).values())
+    .sort((a, b) => a.name.localeCompare(b.name));
+  // Labels in use here, for the label filter
+  const usedLabels = Array.from(new Map(annotations.flatMap(a => (a.label ? [[a.label.id, a.label] as const] : []))).values())
+    .sort((a, b) => a.name.localeCompare(b.name));
+  // Everyone in any thread here, for @mentions
+  const participants = Array.from(new Map<string, Author>(
+    annotations.flatMap(a => [a.author, ...a.replies.map(r => r.author)]).map(p => [p.id, p])
+  ).values()).sort((a, b) => a.name.localeCompare(b.name));
+  const activeFilterCount = countActiveFilters(filter);
+  const visibleActive = sortAnnotations(activeAnnotations.filter(a => matchesFilter(a, filter)), sortOrder);
+  // Most recently closed first
+  const visibleClosed = sortAnnotations(
+    annotations
+      .filter(a => isClosed(a.status) && matchesFilter(a, filter))
+      .sort((a, b) => (b.statusChangedAt ?? 0) - (a.statusChangedAt ?? 0)),
+    sortOrder
+  );
+  // Emphasized on the canvas, the rest dimmed, while a search or filter is in use
+  const matchingIds = React.useMemo(
+    () => (isFilterActive(filter) ? new Set(annotations.filter(a => matchesFilter(a, filter)).map(a => a.id)) : null),
+    [annotations, filter]
+  );
+  const updateFilter = (changes: Partial<AnnotationFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+  // Once the server has `lists`, the same lists aren't sent again
+  const saveToServer = React.useCallback((id: string, lists: AnnotationLists, size: ImageSize) => {
+    saveAnnotationsToServer(id, lists.annotations, lists.deleted, size, authorRef.current)
+      .then(() => {
+        if (imageIdRef.current !== id) return;
+        serverSnapshotRef.current = lists.annotations;
+        setServerSaveFailed(false);
+      })
+      .catch(err => {
+        console.error("Server save failed:", err);
+        if (imageIdRef.current === id) setServerSaveFailed(true);
+      });
+  }, []);
+
+  // Switch to the annotation document of the newly loaded image. The local
+  // copy shows immediately and is merged with the server's once that arrives,
+  // so edits the server hasn't seen yet (made offline, or still waiting to be
+  // sent when the page closed) are kept.
+  const handleImageLoad = React.useCallback((id: string, blob: Blob, size: ImageSize) => {
+    persistImage(id, blob).catch(err => {
+      console.error("Failed to persist image:", err);
+    });
+    // Keep the address shareable; the effect below ignores the id it already shows
+    const url = new URL(window.location.href);
+    if (url.searchParams.get('image') !== id) {
+      url.searchParams.set('image', id);
+      window.history.replaceState(null, '', url);
+    }
+
+    let loaded: ParseResult;
     try {
-      const stored = localStorage.getItem(ANNOTATIONS_STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        if (Array.isArray(parsed)) {
-          // eslint-disable-next-line react-hooks/set-state-in-effect
-          setAnnotations(parsed);
-        }
-      }
+      loaded = loadAnnotationDocument(id);
     } catch (err) {
       console.error("Failed to load annotations from localStorage:", err);
+      loaded = { document: createEmptyDocument(id), newlyQuarantined: [] };
+    }
+    const local = adoptImageSize(loaded.document, size);
+    if (loaded.newlyQuarantined.length > 0) {
+      console.warn("Quarantined invalid annotations:", loaded.newlyQuarantined);
     }
-  }, []);
 
-  const handleAddAnnotation = React.useCallback((newAnnotation: Annotation) => {
-    setAnnotations(prev => [...prev, newAnnotation]);
-  }, []);
+    imageIdRef.current = id;
+    serverSnapshotRef.current = null;
+    serverLoadingRef.current = id;
+    setImageId(id);
+    setImageSize(size);
+    reset(local.annotations, local.deleted);
+    setQuarantined(loaded.document.quarantined);
+    setQuarantineNotice(loaded.newlyQuarantined.length);
+    setServerSaveFailed(false);
+    setSelectedId(null);
+    setConfirmingId(null);
+    setCustomChatPositions({});
 
-  const handleClearAnnotations = React.useCallback(() => {
-    setAnnotations([]);
-  }, []);
+    listAnnotations(id)
+      .then(doc => {
+        if (imageIdRef.current !== id) return;
+        serverLoadingRef.current = null;
+        // Including anything edited while the server copy was on its way
+        const current = listsRef.current;
+        if (!doc) {
+          // First sync for this image: upload what was saved in the browser
+          if (current.annotations.length > 0 || current.deleted.length > 0) saveToServer(id, current, size);
+          return;
+        }
+        const adopted = adoptImageSize(doc, size);
+        // The server's copy, with the changes logged here that it hasn't got
+        const merged = mergeLists(adopted, current);
+        const matches = (other: AnnotationLists) =>
+          JSON.stringify([merged.annotations, merged.deleted]) === JSON.stringify([other.annotations, other.deleted]);
+        // Keep the session, and its undo history, when the server has nothing newer
+        const lists = matches(current) ? current : merged;
+        if (lists !== current) reset(lists.annotations, lists.deleted);
+        // A converted document isn't what the server holds, so it is saved back
+        if (matches(adopted) && !doc.canvasCoordinates) {
+          serverSnapshotRef.current = lists.annotations;
+        } else if (lists === current) {
+          saveToServer(id, lists, size);
+        }
+      })
+      .catch(err => {
+        // Saves stay held back; this browser's edits are merged in the next time the image is opened
+        console.error("Failed to load annotations from server:", err);
+      });
+  }, [reset, saveToServer]);
+
+  // Pick the image to open from ?image= or the last session
+  useEffect(() => {
+    if (imageParam && imageParam === imageIdRef.current) return;
+    let active = true;
+    resolveInitialImage(imageParam).then(source => {
+      if (active) setImageSource(source);
+    });
+    return () => { active = false; };
+  }, [imageParam]);
 
-  const handleMarkComplete = (id: string) => {
-    setAnnotations(prev => prev.map(a =>
-      a.id === id ? { ...a, completed: true } : a
-    ));
-    if (selectedId === id) setSelectedId(null);
+  const handleAddAnnotation = React.useCallback((newAnnotation: Annotation) => {
+    execute({ type: 'add', annotation: newAnnotation });
+  }, [execute]);
+
+  // Only moves the workflow allows. Closing one deselects it unless closed
+  // annotations are on show; reopening brings it back with its thread as it was.
+  const handleChangeStatus = (id: string, status: AnnotationStatus) => {
+    const annotation = annotations.find(a => a.id === id);
+    if (!annotation || !canTransition(annotation.status, status)) return;
+    update(id, { status, statusChangedAt: Date.now(), statusChangedBy: author });
+    if (isClosed(status) && !showClosed) setSelectedId(current => (current === id ? null : current));
     setConfirmingId(null);
   };
 
-  const handleReply = (annotationId: string, text: string) => {
+  const handleSelectClosed = (id: string) => {
+    setShowClosed(true);
+    setSelectedId(selectedId === id ? null : id);
+  };
+
+  const handleDelete = React.useCallback((id: string) => {
+    remove(id);
+    setSelectedId(current => (current === id ? null : current));
+    setExtendingId(current => (current === id ? null : current));
+  }, [remove]);
+
+  const handleEditText = (id: string, text: string) => {
+    update(id, { text });
+  };
+
+  // The highlight carries its own color for drawing, so keep both in step
+  const handleChangeColor = (id: string, color: string) => {
+    const annotation = annotations.find(a => a.id === id);
+    if (!annotation) return;
+    update(id, { color, highlight: { ...annotation.highlight, color } });
+  };
+
+  // Filing under a label also takes on its color
+  const handleChangeLabel = (id: string, label: Label | null) => {
+    const annotation = annotations.find(a => a.id === id);
+    if (!annotation) return;
+    if (!label) {
+      update(id, { label: undefined });
+      return;
+    }
+    const color = toHighlightColor(label.color);
+    update(id, { label, color, highlight: { ...annotation.highlight, color } });
+  };
+
+  const handleChangeSeverity = (id: string, severity: Severity | null) => {
+    update(id, { severity: severity ?? undefined });
+  };
+
+  const handleAddStrokes = (id: string) => {
+    setExtendingId(id);
+    setSelectedId(null);
+  };
+
+  const handleReply = (annotationId: string, text: string, mentions: Author[]) => {
     const newReply: Reply = {
-      id: Date.now().toString(),
+      id: createId(),
       text,
       timestamp: Date.now(),
+      author,
+      ...(mentions.length > 0 && { mentions }),
     };
-    setAnnotations(prev => prev.map(a =>
-      a.id === annotationId
-        ? { ...a, replies: [...a.replies, newReply] }
-        : a
-    ));
+    execute({ type: 'reply', annotationId, reply: newReply });
+  };
+
+  // Only your own replies can be edited or deleted
+  const findOwnReply = (annotationId: string, replyId: string) => {
+    const reply = annotations.find(a => a.id === annotationId)?.replies.find(r => r.id === replyId);
+    return reply?.author.id === author.id ? reply : undefined;
+  };
+
+  const handleEditReply = (annotationId: string, replyId: string, text: string, mentions: Author[]) => {
+    const before = findOwnReply(annotationId, replyId);
+    if (!before || (before.text === text && JSON.stringify(before.mentions ?? []) === JSON.stringify(mentions))) return;
+    const after: Reply = { ...before, text, mentions: mentions.length > 0 ? mentions : undefined, editedAt: Date.now() };
+    execute({ type: 'editReply', annotationId, before, after });
+  };
+
+  const handleDeleteReply = (annotationId: string, replyId: string) => {
+    const reply = findOwnReply(annotationId, replyId);
+    if (!reply) return;
+    const index = annotations.find(a => a.id === annotationId)!.replies.indexOf(reply);
+    execute({ type: 'deleteReply', annotationId, reply, index });
+  };
+
+  const handleClearAll = () => {
+    if (annotations.length === 0) return;
+    execute({ type: 'clear', annotations });
+    setSelectedId(null);
+  };
+
+  const handleExport = () => {
+    if (!imageId) return;
+    const collection = exportWebAnnotationCollection(annotations, imageId);
+    const blob = new Blob([JSON.stringify(collection, null, 2)], { type: 'application/ld+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `annotations-${imageId.slice(0, 12)}.jsonld`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const data = JSON.parse(await file.text());
+      const { annotations: imported, skipped } = importWebAnnotations(data, [...annotations, ...deleted].map(a => a.id));
+      if (skipped.length > 0) {
+        console.warn("Skipped Web Annotation items:", skipped);
+      }
+      if (imported.length > 0) {
+        execute({ type: 'import', annotations: imported });
+      }
+      if (imported.length === 0 || skipped.length > 0) {
+        alert(`Imported ${imported.length} annotation(s), skipped ${skipped.length}.`);
+      }
+    } catch (err) {
+      console.error("Import failed:", err);
+      alert('Failed to import annotations. Please choose a W3C Web Annotation JSON-LD file.');
+    }
   };
+
+  // Undo/redo shortcuts: Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z.
+  // The editor claims these first (preventDefault) while a brush annotation is pending.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
   
   const handleChatPositionChange = (id: string, position: { x: number, y: number }) => {
     setCustomChatPositions(prev => ({ ...prev, [id]: position }));
@@ -82,19 +394,54 @@ export default function AnnotationsPage() {
     setTimeout(() => setSelectedId(id), 0);
   };
 
-  // Auto-save to localStorage whenever annotations change
+  // Auto-save to the current image's document whenever annotations change
   useEffect(() => {
-    // Skip initial empty state (wait for localStorage load)
-    if (annotations.length === 0) {
-      const stored = localStorage.getItem(ANNOTATIONS_STORAGE_KEY);
-      if (stored && stored !== '[]') return;
-    }
+    // Nothing to save until an image (and its document) has been loaded
+    if (!imageId || !imageSize) return;
     try {
-      localStorage.setItem(ANNOTATIONS_STORAGE_KEY, JSON.stringify(annotations));
+      saveAnnotationDocument({
+        version: CURRENT_DOCUMENT_VERSION,
+        imageId,
+        updatedAt: Date.now(),
+        annotations,
+        deleted,
+        quarantined,
+        imageSize,
+      });
     } catch (err) {
       console.error("Auto-save failed:", err);
     }
-  }, [annotations]);
+
+    // Debounced server save, skipped when the list came from the server and
+    // held back until the server's copy has been merged in.
+    // A pending save for a previous image is left to finish.
+    if (serverSaveRef.current?.imageId === imageId) clearTimeout(serverSaveRef.current.timeout);
+    if (annotations === serverSnapshotRef.current || serverLoadingRef.current === imageId) return;
+    const save = () => {
+      if (serverSaveRef.current?.save === save) serverSaveRef.current = null;
+      saveToServer(imageId, { annotations, deleted }, imageSize);
+    };
+    // Sent while the page unloads, which cancels the fetch behind a server action
+    const beacon = () => {
+      const body = JSON.stringify({ annotations, deleted, imageSize, actor: authorRef.current });
+      return navigator.sendBeacon(`/annotations/saves/${imageId}`, new Blob([body], { type: 'application/json' }));
+    };
+    serverSaveRef.current = { imageId, timeout: setTimeout(save, 500), save, beacon };
+  }, [imageId, imageSize, annotations, deleted, quarantined, saveToServer]);
+
+  // Send a save still waiting out its delay when the page is closed or left
+  useEffect(() => {
+    const flush = () => {
+      const pending = serverSaveRef.current;
+      if (!pending) return;
+      clearTimeout(pending.timeout);
+      serverSaveRef.current = null;
+      // Beacons are limited in size (64 KB in most browsers); a bigger save is still tried the usual way
+      if (!pending.beacon()) pending.save();
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
 
   // Calculate chat position based on selected annotation's highlight
   useEffect(() => {
@@ -107,38 +454,17 @@ export default function AnnotationsPage() {
       }
       
       // Otherwise, calculate the initial position.
-      if (editorRef.current) {
+      if (editorRef.current && imageSize) {
         const canvas = editorRef.current.querySelector('canvas');
         if (canvas) {
           const rect = canvas.getBoundingClientRect();
           const containerRect = editorRef.current.getBoundingClientRect();
 
-          const scaleX = rect.width / canvas.width;
-          const scaleY = rect.height / canvas.height;
-
-          let minX = 0, maxX = 0, minY = 0, maxY = 0;
-
-          if (selectedAnnotation.highlight.type === 'rect') {
-            const { x, y, width, height } = selectedAnnotation.highlight;
-            minX = x;
-            maxX = x + width;
-            minY = y;
-            maxY = y + height;
-          } else {
-            // Brush with multiple strokes
-            minX = Infinity; maxX = -Infinity;
-            minY = Infinity; maxY = -Infinity;
-
-            for (const stroke of selectedAnnotation.highlight.strokes) {
-              const halfSize = stroke.brushSize / 2;
-              for (const p of stroke.points) {
-                if (p.x - halfSize < minX) minX = p.x - halfSize;
-                if (p.x + halfSize > maxX) maxX = p.x + halfSize;
-                if (p.y - halfSize < minY) minY = p.y - halfSize;
-                if (p.y + halfSize > maxY) maxY = p.y + halfSize;
-              }
-            }
-          }
+          // Screen pixels per source image pixel
+          const scaleX = rect.width / imageSize.width;
+          const scaleY = rect.height / imageSize.height;
+
+          const { minX, maxX, minY } = getHighlightBounds(selectedAnnotation.highlight, 1 / scaleX);
 
           const canvasOffsetX = rect.left - containerRect.left;
           const canvasOffsetY = rect.top - containerRect.top;
@@ -170,7 +496,7 @@ export default function AnnotationsPage() {
     } else {
       setChatPosition(null);
     }
-  }, [selectedAnnotation, customChatPositions, panelOpen, viewTick]);
+  }, [selectedAnnotation, customChatPositions, panelOpen, viewTick, imageSize]);
 
   const handleViewChange = React.useCallback(() => {
     setViewTick(t => t + 1);
@@ -184,79 +510,305 @@ export default function AnnotationsPage() {
       >
         {/* Panel Content */}
         <div className="w-80 bg-white h-full flex flex-col shadow-2xl">
-          <AnnotationsPanelHeader activeCount={activeAnnotations.length} />
+          <AnnotationsPanelHeader
+            activeCount={activeAnnotations.length}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            onUndo={undo}
+            onRedo={redo}
+            onClearAll={annotations.length > 0 ? handleClearAll : undefined}
+            onExport={imageId && annotations.length > 0 ? handleExport : undefined}
+            onImport={imageId ? () => importInputRef.current?.click() : undefined}
+            profile={profile}
+            onEditProfile={() => setEditingProfile(true)}
+            onEditLabels={() => setEditingLabels(true)}
+            storageUsage={storageUsage}
+          />
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".jsonld,.json,application/ld+json,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
 
-          <div className="flex-1 overflow-y-auto p-3 space-y-2">
-            {activeAnnotations.length === 0 ? (
-              <div className="text-center text-gray-400 py-10">
-                <MessageSquare size={24} className="mx-auto mb-2 opacity-30" />
-                <p className="text-xs">No comments yet</p>
+          <div className="flex items-center gap-1 px-3 pt-3">
+            <button
+              onClick={() => setPanelTab('open')}
+              className={`flex-1 text-xs py-1.5 rounded ${panelTab === 'open' ? 'bg-gray-100 text-gray-900 font-medium' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              Open ({visibleActive.length})
+            </button>
+            <button
+              onClick={() => setPanelTab('closed')}
+              className={`flex-1 text-xs py-1.5 rounded ${panelTab === 'closed' ? 'bg-gray-100 text-gray-900 font-medium' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              Closed ({visibleClosed.length})
+            </button>
+          </div>
+
+          {/* Search, filters and sort */}
+          <div className="px-3 pt-2 space-y-2">
+            <div className="flex items-center gap-1">
+              <div className="relative flex-1">
+                <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+                <input
+                  type="search"
+                  value={filter.query}
+                  onChange={(e) => updateFilter({ query: e.target.value })}
+                  placeholder="Search comments and replies"
+                  className="w-full text-xs border border-gray-200 rounded pl-6 pr-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
+                />
               </div>
-            ) : (
-              activeAnnotations.map((ann) => (
-                <div
-                  key={ann.id}
-                  onClick={() => {
-                    setSelectedId(selectedId === ann.id ? null : ann.id);
+              <button
+                onClick={() => setFiltersOpen(!filtersOpen)}
+                className={`flex items-center gap-1 text-xs px-2 py-1.5 rounded border ${filtersOpen || activeFilterCount > 0 ? 'border-gray-400 text-gray-800' : 'border-gray-200 text-gray-500 hover:text-gray-700'}`}
+                title="Filters and sort"
+              >
+                <SlidersHorizontal size={12} />
+                {activeFilterCount > 0 && activeFilterCount}
+              </button>
+            </div>
+
+            {filtersOpen && (
+              <div className="grid grid-cols-2 gap-1.5">
+                <select
+                  value={filter.authorId ?? ''}
+                  onChange={(e) => updateFilter({ authorId: e.target.value || null })}
+                  className="text-xs border border-gray-200 rounded px-2 py-1.5 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+                >
+                  <option value="">All authors</option>
+                  {authors.map(a => (
+                    <option key={a.id} value={a.id}>
+                      {a.id === profile?.id ? `${a.name} (you)` : a.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={filter.labelId ?? ''}
+                  onChange={(e) => updateFilter({ labelId: e.target.value || null })}
+                  className="text-xs border border-gray-200 rounded px-2 py-1.5 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+                >
+                  <option value="">All labels</option>
+                  {usedLabels.map(l => (
+                    <option key={l.id} value={l.id}>{l.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={filter.highlightType ?? ''}
+                  onChange={(e) => updateFilter({ highlightType: (e.target.value || null) as AnnotationFilter['highlightType'] })}
+                  className="text-xs border border-gray-200 rounded px-2 py-1.5 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+                >
+                  <option value="">All shapes</option>
+                  {Object.entries(HIGHLIGHT_TYPE_NAMES).map(([type, name]) => (
+                    <option key={type} value={type}>{name}</option>
+                  ))}
+                </select>
+                <select
+                  value={filter.status ?? ''}
+                  onChange={(e) => {
+                    const status = (e.target.value || null) as AnnotationFilter['status'];
+                    updateFilter({ status });
+                    // Open the tab the status is listed under
+                    if (status) setPanelTab(isClosed(status) ? 'closed' : 'open');
                   }}
-                  className={`
-                    group relative p-3 rounded-lg border transition-all cursor-pointer text-sm
-                    ${selectedId === ann.id
-                      ? 'bg-gray-50 border-black'
-                      : 'bg-white border-gray-200 hover:border-gray-300'
-                    }
-                  `}
+                  className="text-xs border border-gray-200 rounded px-2 py-1.5 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
                 >
-                  <div className="flex items-start gap-2">
-                    <div
-                      className="mt-1 w-2 h-2 rounded-full flex-shrink-0"
-                      style={{ backgroundColor: ann.color.replace(/[\d.]+\)$/g, '0.8)') }}
-                    />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-gray-800 leading-relaxed break-words line-clamp-2">
-                        {ann.text}
-                      </p>
-                      {ann.replies.length > 0 && (
-                        <div className="flex items-center gap-1 mt-1 text-[10px] text-gray-400">
-                          <MessageCircle size={10} />
-                          <span>{ann.replies.length}</span>
+                  <option value="">All statuses</option>
+                  {STATUSES.map(s => (
+                    <option key={s} value={s}>{STATUS_NAMES[s]}</option>
+                  ))}
+                </select>
+                <select
+                  value={sortOrder}
+                  onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                  className="col-span-2 text-xs border border-gray-200 rounded px-2 py-1.5 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+                >
+                  {SORT_ORDERS.map(o => (
+                    <option key={o.value} value={o.value}>{o.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={filter.from}
+                  max={filter.to || undefined}
+                  onChange={(e) => updateFilter({ from: e.target.value })}
+                  className="text-xs border border-gray-200 rounded px-2 py-1.5 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+                  title="Created on or after"
+                />
+                <input
+                  type="date"
+                  value={filter.to}
+                  min={filter.from || undefined}
+                  onChange={(e) => updateFilter({ to: e.target.value })}
+                  className="text-xs border border-gray-200 rounded px-2 py-1.5 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+                  title="Created on or before"
+                />
+                {isFilterActive(filter) && (
+                  <button
+                    onClick={() => setFilter(EMPTY_FILTER)}
+                    className="col-span-2 text-[11px] text-gray-500 hover:text-gray-800 py-0.5"
+                  >
+                    Clear search and filters
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {panelTab === 'closed' ? (
+            <div className="flex-1 overflow-y-auto p-3 space-y-2">
+              <button
+                onClick={() => setShowClosed(!showClosed)}
+                className="w-full flex items-center justify-center gap-1.5 text-[11px] text-gray-500 hover:text-gray-800 py-1"
+              >
+                {showClosed ? <EyeOff size={12} /> : <Eye size={12} />}
+                {showClosed ? 'Hide closed on canvas' : 'Show closed on canvas'}
+              </button>
+              {visibleClosed.length === 0 ? (
+                <div className="text-center text-gray-400 py-10">
+                  <CheckCircle size={24} className="mx-auto mb-2 opacity-30" />
+                  <p className="text-xs">{isFilterActive(filter) ? 'Nothing closed matches' : 'Nothing closed yet'}</p>
+                </div>
+              ) : (
+                groupByStatus(visibleClosed, CLOSED_STATUSES).map(group => (
+                  <React.Fragment key={group.status}>
+                    <StatusGroupHeader status={group.status} count={group.annotations.length} />
+                    {group.annotations.map((ann) => (
+                      <div
+                        key={ann.id}
+                        onClick={() => handleSelectClosed(ann.id)}
+                        className={`
+                          p-3 rounded-lg border transition-all cursor-pointer text-sm
+                          ${selectedId === ann.id
+                            ? 'bg-gray-50 border-black'
+                            : 'bg-white border-gray-200 hover:border-gray-300'
+                          }
+                        `}
+                      >
+                        <div className="flex items-start gap-2 opacity-70">
+                          <div
+                            className="mt-1 w-2 h-2 rounded-full flex-shrink-0"
+                            style={{ backgroundColor: ann.color.replace(/[\d.]+\)$/g, '0.8)') }}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-gray-800 leading-relaxed break-words line-clamp-2">
+                              {ann.text || <span className="italic text-gray-400">No note</span>}
+                            </p>
+                            <LabelChips annotation={ann} />
+                            <div className="flex items-center gap-2 mt-1 text-[10px] text-gray-400">
+                              <span className="truncate">
+                                {STATUS_NAMES[ann.status]}
+                                {ann.statusChangedBy && ` by ${ann.statusChangedBy.name}`}
+                                {ann.statusChangedAt !== undefined && ` · ${formatClosedAt(ann.statusChangedAt)}`}
+                              </span>
+                              {ann.replies.length > 0 && (
+                                <span className="flex items-center gap-1">
+                                  <MessageCircle size={10} />
+                                  {ann.replies.length}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="mt-2 pt-2 border-t border-gray-100">
+                          <button
+                            onClick={(e) => { e.stopPropagation(); handleChangeStatus(ann.id, 'open'); }}
+                            className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-blue-600"
+                          >
+                            <RotateCcw size={12} />
+                            Reopen
+                          </button>
                         </div>
-                      )}
-                    </div>
-                  </div>
-
-                  {/* Mark Complete */}
-                  <div className="mt-2 pt-2 border-t border-gray-100">
-                    {confirmingId === ann.id ? (
-                      <div className="flex items-center gap-2">
-                        <span className="text-[10px] text-gray-500 flex-1">Confirm?</span>
-                        <button
-                          onClick={(e) => { e.stopPropagation(); setConfirmingId(null); }}
-                          className="text-[10px] px-2 py-0.5 text-gray-500"
-                        >
-                          No
-                        </button>
-                        <button
-                          onClick={(e) => { e.stopPropagation(); handleMarkComplete(ann.id); }}
-                          className="text-[10px] px-2 py-0.5 bg-green-600 text-white rounded"
-                        >
-                          Yes
-                        </button>
                       </div>
-                    ) : (
-                      <button
-                        onClick={(e) => { e.stopPropagation(); setConfirmingId(ann.id); }}
-                        className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-green-600"
-                      >
-                        <CheckCircle size={12} />
-                        Complete
-                      </button>
-                    )}
-                  </div>
+                    ))}
+                  </React.Fragment>
+                ))
+              )}
+            </div>
+          ) : (
+            <div className="flex-1 overflow-y-auto p-3 space-y-2">
+              {visibleActive.length === 0 ? (
+                <div className="text-center text-gray-400 py-10">
+                  <MessageSquare size={24} className="mx-auto mb-2 opacity-30" />
+                  <p className="text-xs">{isFilterActive(filter) ? 'No comments match' : 'No comments yet'}</p>
                 </div>
-              ))
-            )}
-          </div>
+              ) : (
+                groupByStatus(visibleActive, OPEN_STATUSES).map(group => (
+                  <React.Fragment key={group.status}>
+                    <StatusGroupHeader status={group.status} count={group.annotations.length} />
+                    {group.annotations.map((ann) => (
+                      <div
+                        key={ann.id}
+                        onClick={() => {
+                          setSelectedId(selectedId === ann.id ? null : ann.id);
+                        }}
+                        className={`
+                          group relative p-3 rounded-lg border transition-all cursor-pointer text-sm
+                          ${selectedId === ann.id
+                            ? 'bg-gray-50 border-black'
+                            : 'bg-white border-gray-200 hover:border-gray-300'
+                          }
+                        `}
+                      >
+                        <div className="flex items-start gap-2">
+                          <div
+                            className="mt-1 w-2 h-2 rounded-full flex-shrink-0"
+                            style={{ backgroundColor: ann.color.replace(/[\d.]+\)$/g, '0.8)') }}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <p className="text-gray-800 leading-relaxed break-words line-clamp-2">
+                              {ann.text}
+                            </p>
+                            <LabelChips annotation={ann} />
+                            <div className="flex items-center gap-2 mt-1 text-[10px] text-gray-400">
+                              <AuthorAvatar author={ann.author} size={14} />
+                              <span className="truncate">{ann.author.name}</span>
+                              {ann.replies.length > 0 && (
+                                <span className="flex items-center gap-1">
+                                  <MessageCircle size={10} />
+                                  {ann.replies.length}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+
+                        {/* Resolve */}
+                        <div className="mt-2 pt-2 border-t border-gray-100">
+                          {confirmingId === ann.id ? (
+                            <div className="flex items-center gap-2">
+                              <span className="text-[10px] text-gray-500 flex-1">Confirm?</span>
+                              <button
+                                onClick={(e) => { e.stopPropagation(); setConfirmingId(null); }}
+                                className="text-[10px] px-2 py-0.5 text-gray-500"
+                              >
+                                No
+                              </button>
+                              <button
+                                onClick={(e) => { e.stopPropagation(); handleChangeStatus(ann.id, 'resolved'); }}
+                                className="text-[10px] px-2 py-0.5 bg-green-600 text-white rounded"
+                              >
+                                Yes
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={(e) => { e.stopPropagation(); setConfirmingId(ann.id); }}
+                              className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-green-600"
+                            >
+                              <CheckCircle size={12} />
+                              Resolve
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </React.Fragment>
+                ))
+              )}
+            </div>
+          )}
         </div>
 
         {/* Tab/Button to toggle panel */}
@@ -273,12 +825,54 @@ export default function AnnotationsPage() {
         ref={editorRef}
         className={`flex-1 h-full relative transition-all duration-300 ease-in-out ${panelOpen ? 'ml-80' : 'ml-0'}`}
       >
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-2">
+          {/* Report annotations that failed validation and were set aside */}
+          {quarantineNotice > 0 && (
+            <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-lg px-3 py-2 shadow-lg">
+              <AlertTriangle size={14} />
+              <span>
+                {quarantineNotice} corrupt {quarantineNotice === 1 ? 'annotation was' : 'annotations were'} set aside and not loaded.
+              </span>
+              <button
+                onClick={() => setQuarantineNotice(0)}
+                className="text-amber-600 hover:text-amber-800"
+                title="Dismiss"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          )}
+          {/* Report a server save that didn't go through */}
+          {serverSaveFailed && (
+            <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-800 text-xs rounded-lg px-3 py-2 shadow-lg">
+              <AlertTriangle size={14} />
+              <span>Couldn&apos;t save to the server. Your changes are kept in this browser and go out with your next change.</span>
+              <button
+                onClick={() => setServerSaveFailed(false)}
+                className="text-amber-600 hover:text-amber-800"
+                title="Dismiss"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          )}
+        </div>
+
         <AnnotationEditor
           annotations={annotations}
+          author={author}
+          labels={labels}
+          image={imageSource}
           onAddAnnotation={handleAddAnnotation}
-          onClearAnnotations={handleClearAnnotations}
+          onImageLoad={handleImageLoad}
           selectedAnnotationId={selectedId}
           onSelectAnnotation={setSelectedId}
+          showClosed={showClosed}
+          matchingIds={matchingIds}
+          onUpdateAnnotation={update}
+          onDeleteAnnotation={handleDelete}
+          extendAnnotationId={extendingId}
+          onExtendEnd={() => setExtendingId(null)}
           panelOpen={panelOpen}
           onViewChange={handleViewChange}
         />
@@ -286,16 +880,64 @@ export default function AnnotationsPage() {
         {/* Floating Chat */}
         {selectedAnnotation && chatPosition && (
           <AnnotationChat
+            key={selectedAnnotation.id}
             annotation={selectedAnnotation}
             position={chatPosition}
             onClose={() => setSelectedId(null)}
+            currentAuthor={author}
+            authors={participants}
             onReply={handleReply}
-            onMarkComplete={handleMarkComplete}
+            onEditReply={handleEditReply}
+            onDeleteReply={handleDeleteReply}
+            onChangeStatus={handleChangeStatus}
+            onEditText={handleEditText}
+            onChangeColor={handleChangeColor}
+            labels={labels}
+            onChangeLabel={handleChangeLabel}
+            onChangeSeverity={handleChangeSeverity}
+            onDelete={handleDelete}
+            onAddStrokes={handleAddStrokes}
             onPositionChange={(newPos) => handleChatPositionChange(selectedAnnotation.id, newPos)}
             onResetPosition={() => handleResetChatPosition(selectedAnnotation.id)}
           />
         )}
       </div>
+
+      {editingLabels && (
+        <LabelsDialog
+          labels={labels}
+          onSave={(next) => { setLabels(next); setEditingLabels(false); }}
+          onCancel={() => setEditingLabels(false)}
+        />
+      )}
+
+      {/* A profile is needed before anything can be attributed */}
+      {(!profile || editingProfile) && (
+        <AuthorProfileDialog
+          profile={profile}
+          onSave={(next) => { setProfile(next); setEditingProfile(false); }}
+          onCancel={profile ? () => setEditingProfile(false) : undefined}
+        />
+      )}
     </div>
   );
 }
+
+function AnnotationsFallback() {
+  return (
+    <div className="flex h-screen w-full items-center justify-center bg-neutral-900">
+      <div className="flex flex-col items-center gap-3">
+        <div className="w-8 h-8 border-2 border-white/20 border-t-white/80 rounded-full animate-spin" />
+        <span className="text-sm text-white/50">Loading...</span>
+      </div>
+    </div>
+  );
+}
+
+export default function AnnotationsPage() {
+  return (
+    <Suspense fallback={<AnnotationsFallback />}>
+      <AnnotationsContent />
+    </Suspense>
+  );
+}
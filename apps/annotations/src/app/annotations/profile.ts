@@ -0,0 +1,65 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { Author } from './types';
+import { validateAuthor } from './schema';
+
+// The local user's profile, set once per browser and stamped on everything they write.
+export const PROFILE_STORAGE_KEY = 'annotation-tool-profile';
+
+export const PROFILE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#a855f7', '#ec4899'];
+
+export function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+  return (words[0][0] + words[words.length - 1][0]).toUpperCase();
+}
+
+// Subscribers in this tab; other tabs are reached through the storage event
+const listeners = new Set<() => void>();
+
+let cachedRaw: string | null = null;
+let cachedProfile: Author | null = null;
+
+function readProfile(): Author | null {
+  const raw = localStorage.getItem(PROFILE_STORAGE_KEY);
+  // Same string, same object, so useSyncExternalStore sees a stable snapshot
+  if (raw === cachedRaw) return cachedProfile;
+  cachedRaw = raw;
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    cachedProfile = parsed && validateAuthor(parsed).length === 0 ? (parsed as Author) : null;
+  } catch {
+    cachedProfile = null;
+  }
+  return cachedProfile;
+}
+
+export function saveProfile(profile: Author) {
+  localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === PROFILE_STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+// `profile` is null on the server and until the user has set one up
+export function useAuthorProfile() {
+  const profile = useSyncExternalStore(subscribe, readProfile, () => null);
+  const setProfile = useCallback((next: Author) => {
+    try {
+      saveProfile(next);
+    } catch (err) {
+      console.error("Failed to save profile:", err);
+    }
+  }, []);
+  return { profile, setProfile };
+}
@@ -0,0 +1,174 @@
+import type { PyramidRequest, PyramidResponse } from './imagePyramid';
+import type { ImageSize } from './types';
+
+// Decodes an image off the main thread and serves pieces of its resolution
+// pyramid: level 0 is the image itself and each level above it is half the
+// size of the one below. Levels are built on first use by halving the level
+// below, which keeps them sharp without decoding the source again.
+//
+// An image too big to hold decoded (a gigapixel scan, say) is never decoded
+// whole: its size comes from the file's header, the levels small enough to
+// hold are decoded scaled down, and tiles of the finer ones are decoded from
+// just their region of the file.
+
+// Most pixels held as one bitmap, about 256 MB; browsers refuse far fewer
+// than a gigapixel image has
+const MAX_DECODED_PIXELS = 64 * 1024 * 1024;
+
+// How much of the file is searched for its size; JPEG metadata can come first
+const HEADER_BYTES = 1024 * 1024;
+
+let source: Blob | null = null;
+let size: ImageSize = { width: 0, height: 0 };
+// Finest level held decoded; finer ones are read from `source` by region
+let firstLevel = 0;
+// Promises, so concurrent requests for a new level share one build
+let levels: Promise<ImageBitmap>[] = [];
+
+const reply = (response: PyramidResponse, transfer: Transferable[] = []) =>
+  self.postMessage(response, { transfer });
+
+const resize = (image: ImageBitmap, width: number, height: number) =>
+  createImageBitmap(image, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' });
+
+function getLevelSize(level: number): ImageSize {
+  let { width, height } = size;
+  for (let i = 0; i < level; i++) {
+    width = Math.ceil(width / 2);
+    height = Math.ceil(height / 2);
+  }
+  return { width, height };
+}
+
+// Width and height from a PNG, GIF, WebP or JPEG header; null for anything else
+async function readImageSize(blob: Blob): Promise<ImageSize | null> {
+  const bytes = new Uint8Array(await blob.slice(0, HEADER_BYTES).arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const text = (at: number, length: number) => String.fromCharCode(...bytes.subarray(at, at + length));
+  if (bytes.length < 32) return null;
+
+  if (text(1, 3) === 'PNG') return { width: view.getUint32(16), height: view.getUint32(20) };
+  if (text(0, 4) === 'GIF8') return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  if (text(0, 4) === 'RIFF' && text(8, 4) === 'WEBP') {
+    switch (text(12, 4)) {
+      case 'VP8 ':
+        return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+      case 'VP8L': {
+        const bits = view.getUint32(21, true);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      case 'VP8X':
+        return {
+          width: (view.getUint32(24, true) & 0xffffff) + 1,
+          height: (view.getUint32(27, true) & 0xffffff) + 1,
+        };
+    }
+    return null;
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    // Walk the segments to the frame header (SOF0-15, less DHT, JPG and DAC)
+    for (let at = 2; at + 9 < bytes.length; at += 2 + view.getUint16(at + 2)) {
+      if (bytes[at] !== 0xff) return null;
+      const marker = bytes[at + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(at + 7), height: view.getUint16(at + 5) };
+      }
+    }
+  }
+  return null;
+}
+
+async function open(blob: Blob): Promise<ImageSize> {
+  source = blob;
+  levels = [];
+  firstLevel = 0;
+  const header = await readImageSize(blob);
+  if (!header || header.width * header.height <= MAX_DECODED_PIXELS) {
+    levels[0] = createImageBitmap(blob);
+    const { width, height } = await levels[0];
+    size = { width, height };
+    return size;
+  }
+  // Pixels are taken as stored, without the EXIF rotation a whole decode
+  // applies, so they agree with the header's size
+  size = header;
+  while (getLevelSize(firstLevel).width * getLevelSize(firstLevel).height > MAX_DECODED_PIXELS) firstLevel++;
+  const { width, height } = getLevelSize(firstLevel);
+  levels[firstLevel] = createImageBitmap(blob, {
+    resizeWidth: width,
+    resizeHeight: height,
+    resizeQuality: 'high',
+    imageOrientation: 'none',
+  });
+  await levels[firstLevel];
+  return size;
+}
+
+function getLevel(level: number): Promise<ImageBitmap> {
+  if (!source) return Promise.reject(new Error('No image is open'));
+  if (level < firstLevel) return Promise.reject(new Error(`Level ${level} is read by region`));
+  for (let i = firstLevel + 1; i <= level; i++) {
+    levels[i] ??= levels[i - 1].then(below => resize(below, Math.ceil(below.width / 2), Math.ceil(below.height / 2)));
+  }
+  return levels[level];
+}
+
+// A region of a level, in that level's pixels
+async function getRegion(level: number, x: number, y: number, width: number, height: number): Promise<ImageBitmap> {
+  if (!source) throw new Error('No image is open');
+  if (level >= firstLevel) return createImageBitmap(await getLevel(level), x, y, width, height);
+  const scale = size.width / getLevelSize(level).width;
+  const sx = Math.floor(x * scale);
+  const sy = Math.floor(y * scale);
+  return createImageBitmap(
+    source,
+    sx,
+    sy,
+    Math.min(size.width, Math.ceil((x + width) * scale)) - sx,
+    Math.min(size.height, Math.ceil((y + height) * scale)) - sy,
+    { resizeWidth: width, resizeHeight: height, resizeQuality: 'high', imageOrientation: 'none' }
+  );
+}
+
+// The whole image at the smallest level that still covers `maxDimension`,
+// scaled down to fit it exactly
+async function getImage(maxDimension: number): Promise<ImageBitmap> {
+  const ratio = Math.min(1, maxDimension / Math.max(size.width, size.height));
+  let level = 0;
+  while (2 ** (level + 1) <= 1 / ratio) level++;
+  const width = Math.max(1, Math.floor(size.width * ratio));
+  const height = Math.max(1, Math.floor(size.height * ratio));
+  if (level < firstLevel) {
+    // Finer than what is held: straight from the file
+    if (!source) throw new Error('No image is open');
+    return createImageBitmap(source, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high', imageOrientation: 'none' });
+  }
+  const base = await getLevel(level);
+  return base.width === width && base.height === height ? createImageBitmap(base) : resize(base, width, height);
+}
+
+self.addEventListener('message', async (e: MessageEvent<PyramidRequest>) => {
+  const request = e.data;
+  try {
+    switch (request.type) {
+      case 'open': {
+        const { width, height } = await open(request.blob);
+        reply({ id: request.id, type: 'opened', width, height });
+        break;
+      }
+      case 'tile': {
+        const { level, x, y, width, height } = request;
+        const bitmap = await getRegion(level, x, y, width, height);
+        reply({ id: request.id, type: 'bitmap', bitmap }, [bitmap]);
+        break;
+      }
+      case 'image': {
+        const bitmap = await getImage(request.maxDimension);
+        reply({ id: request.id, type: 'bitmap', bitmap }, [bitmap]);
+        break;
+      }
+    }
+  } catch (err) {
+    reply({ id: request.id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+});
@@ -0,0 +1,40 @@
+import { saveAnnotationsToServer } from '../../actions';
+import { Author, ImageSize } from '../../types';
+
+// The same save as saveAnnotationsToServer, for a page that is closing: a
+// server action call is an ordinary fetch that the browser cancels on unload,
+// while a beacon (or a keepalive fetch) to a route is still sent.
+//   POST /annotations/saves/:imageId  -> { annotations, deleted, imageSize, actor }
+
+const MAX_SAVE_SIZE = 10 * 1024 * 1024;
+
+interface RouteContext {
+  params: Promise<{ imageId: string }>;
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  const { imageId } = await context.params;
+  if (Number(request.headers.get('content-length')) > MAX_SAVE_SIZE) {
+    return new Response('Save is too large', { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response('Expected a JSON body', { status: 400 });
+  }
+  const { annotations, deleted, imageSize, actor } = (body ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(annotations) || !Array.isArray(deleted)) {
+    return new Response('Expected annotations and deleted lists', { status: 400 });
+  }
+
+  try {
+    // Everything else is validated by the save itself
+    await saveAnnotationsToServer(imageId, annotations, deleted, imageSize as ImageSize, actor as Author);
+  } catch (err) {
+    console.error('Failed to save annotations:', err);
+    return new Response('Failed to save annotations', { status: 400 });
+  }
+  return new Response(null, { status: 204 });
+}
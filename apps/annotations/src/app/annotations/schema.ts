@@ -0,0 +1,461 @@
+import { ActivityType, Annotation, AnnotationStatus, Author, BrushStroke, ImageSize, Severity } from './types';
+import { createId } from './ids';
+import { getCanvasSize, scaleHighlight } from './geometry';
+import { decodePoints, decodePressures, encodePoints, encodePressures } from './strokes';
+
+// Bump when the saved format changes and add a migration from the previous version.
+export const CURRENT_DOCUMENT_VERSION = 9;
+
+// Stands in for the author of anything written before authors were recorded
+export const UNKNOWN_AUTHOR: Author = { id: 'unknown', name: 'Unknown', color: '#9ca3af', initials: '?' };
+
+// Least to most severe
+export const SEVERITIES: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+export const ACTIVITY_TYPES: ActivityType[] = [
+  'created', 'text', 'status', 'moved', 'reshaped', 'color', 'label', 'severity',
+  'reply', 'replyEdited', 'replyDeleted', 'replyRestored', 'deleted', 'restored', 'imported',
+];
+
+// In workflow order
+export const STATUSES: AnnotationStatus[] = ['open', 'in_progress', 'needs_review', 'resolved', 'wont_fix'];
+
+export interface QuarantinedEntry {
+  entry: unknown;
+  errors: string[];
+  quarantinedAt: number;
+}
+
+// The saved form of one image's review, both in localStorage and on the server.
+// Entries that fail validation are kept aside in `quarantined` instead of being
+// loaded or thrown away.
+export interface AnnotationDocument {
+  version: number;
+  imageId: string;
+  updatedAt: number;
+  annotations: Annotation[];
+  // Annotations deleted from the review, kept for their activity logs
+  deleted: Annotation[];
+  quarantined: QuarantinedEntry[];
+  // The image's intrinsic size, which annotation coordinates are measured in.
+  // Recorded the first time the image is opened with this document.
+  imageSize?: ImageSize;
+  // Set on documents from before v7, whose coordinates are still in the
+  // editor's canvas pixels; see adoptImageSize
+  canvasCoordinates?: boolean;
+}
+
+// The live annotations, and the ones deleted from the review
+export type AnnotationLists = Pick<AnnotationDocument, 'annotations' | 'deleted'>;
+
+export interface ParseResult {
+  document: AnnotationDocument;
+  // Entries quarantined by this parse (not including earlier ones)
+  newlyQuarantined: QuarantinedEntry[];
+}
+
+// --- Validation -------------------------------------------------------------
+
+type Errors = string[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+function expectString(obj: Record<string, unknown>, key: string, path: string, errors: Errors) {
+  if (typeof obj[key] !== 'string') errors.push(`${path}.${key} must be a string`);
+}
+
+function expectNumber(obj: Record<string, unknown>, key: string, path: string, errors: Errors) {
+  if (!isFiniteNumber(obj[key])) errors.push(`${path}.${key} must be a finite number`);
+}
+
+export function validatePoint(value: unknown, path = 'point'): Errors {
+  const errors: Errors = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  expectNumber(value, 'x', path, errors);
+  expectNumber(value, 'y', path, errors);
+  return errors;
+}
+
+export function validateImageSize(value: unknown, path = 'imageSize'): Errors {
+  const errors: Errors = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  for (const key of ['width', 'height']) {
+    const size = value[key];
+    if (!isFiniteNumber(size) || size <= 0) errors.push(`${path}.${key} must be a positive number`);
+  }
+  return errors;
+}
+
+export function validateBrushStroke(value: unknown, path = 'stroke'): Errors {
+  const errors: Errors = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  if (!isFiniteNumber(value.brushSize) || value.brushSize <= 0) {
+    errors.push(`${path}.brushSize must be a positive number`);
+  }
+  if (!Array.isArray(value.points)) {
+    errors.push(`${path}.points must be an array`);
+  } else {
+    value.points.forEach((p, i) => errors.push(...validatePoint(p, `${path}.points[${i}]`)));
+  }
+  if (value.pressures !== undefined) {
+    const { pressures, points } = value;
+    if (!Array.isArray(pressures) || !pressures.every(p => isFiniteNumber(p) && p >= 0 && p <= 1)) {
+      errors.push(`${path}.pressures must be an array of numbers between 0 and 1`);
+    } else if (Array.isArray(points) && pressures.length !== points.length) {
+      errors.push(`${path}.pressures must have one entry per point`);
+    }
+  }
+  return errors;
+}
+
+export function validateHighlight(value: unknown, path = 'highlight'): Errors {
+  const errors: Errors = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  expectString(value, 'color', path, errors);
+
+  if (value.type === 'rect' || value.type === 'ellipse') {
+    expectNumber(value, 'x', path, errors);
+    expectNumber(value, 'y', path, errors);
+    expectNumber(value, 'width', path, errors);
+    expectNumber(value, 'height', path, errors);
+  } else if (value.type === 'pin') {
+    expectNumber(value, 'x', path, errors);
+    expectNumber(value, 'y', path, errors);
+  } else if (value.type === 'arrow') {
+    errors.push(...validatePoint(value.start, `${path}.start`));
+    errors.push(...validatePoint(value.end, `${path}.end`));
+    if (!isFiniteNumber(value.lineWidth) || value.lineWidth <= 0) {
+      errors.push(`${path}.lineWidth must be a positive number`);
+    }
+  } else if (value.type === 'polygon' || value.type === 'lasso') {
+    if (!Array.isArray(value.points) || value.points.length < 3) {
+      errors.push(`${path}.points must be an array of at least 3 points`);
+    } else {
+      value.points.forEach((p, i) => errors.push(...validatePoint(p, `${path}.points[${i}]`)));
+    }
+  } else if (value.type === 'brush') {
+    expectNumber(value, 'opacity', path, errors);
+    if (!Array.isArray(value.strokes) || value.strokes.length === 0) {
+      errors.push(`${path}.strokes must be a non-empty array`);
+    } else {
+      value.strokes.forEach((s, i) => errors.push(...validateBrushStroke(s, `${path}.strokes[${i}]`)));
+    }
+  } else {
+    errors.push(`${path}.type must be one of: rect, brush, ellipse, arrow, polygon, lasso, pin`);
+  }
+  return errors;
+}
+
+export function validateAuthor(value: unknown, path = 'author'): Errors {
+  const errors: Errors = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  expectString(value, 'id', path, errors);
+  expectString(value, 'name', path, errors);
+  expectString(value, 'color', path, errors);
+  expectString(value, 'initials', path, errors);
+  return errors;
+}
+
+export function validateLabel(value: unknown, path = 'label'): Errors {
+  const errors: Errors = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  expectString(value, 'id', path, errors);
+  expectString(value, 'name', path, errors);
+  if (typeof value.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(value.color)) {
+    errors.push(`${path}.color must be a #rrggbb color`);
+  }
+  return errors;
+}
+
+export function validateReply(value: unknown, path = 'reply'): Errors {
+  const errors: Errors = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  expectString(value, 'id', path, errors);
+  expectString(value, 'text', path, errors);
+  errors.push(...validateAuthor(value.author, `${path}.author`));
+  expectNumber(value, 'timestamp', path, errors);
+  if (value.mentions !== undefined) {
+    if (!Array.isArray(value.mentions)) {
+      errors.push(`${path}.mentions must be an array`);
+    } else {
+      value.mentions.forEach((m, i) => errors.push(...validateAuthor(m, `${path}.mentions[${i}]`)));
+    }
+  }
+  if (value.editedAt !== undefined) expectNumber(value, 'editedAt', path, errors);
+  return errors;
+}
+
+export function validateActivityEvent(value: unknown, path = 'event'): Errors {
+  const errors: Errors = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  expectString(value, 'id', path, errors);
+  if (!ACTIVITY_TYPES.includes(value.type as ActivityType)) {
+    errors.push(`${path}.type must be one of: ${ACTIVITY_TYPES.join(', ')}`);
+  }
+  errors.push(...validateAuthor(value.actor, `${path}.actor`));
+  expectNumber(value, 'timestamp', path, errors);
+  if (value.before !== undefined) expectString(value, 'before', path, errors);
+  if (value.after !== undefined) expectString(value, 'after', path, errors);
+  return errors;
+}
+
+export function validateAnnotation(value: unknown, path = 'annotation'): Errors {
+  const errors: Errors = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  expectString(value, 'id', path, errors);
+  expectString(value, 'text', path, errors);
+  expectString(value, 'color', path, errors);
+  expectNumber(value, 'timestamp', path, errors);
+  if (!STATUSES.includes(value.status as AnnotationStatus)) {
+    errors.push(`${path}.status must be one of: ${STATUSES.join(', ')}`);
+  }
+  if (value.statusChangedAt !== undefined) expectNumber(value, 'statusChangedAt', path, errors);
+  errors.push(...validateAuthor(value.author, `${path}.author`));
+  if (value.statusChangedBy !== undefined) errors.push(...validateAuthor(value.statusChangedBy, `${path}.statusChangedBy`));
+  errors.push(...validateHighlight(value.highlight, `${path}.highlight`));
+  if (value.label !== undefined) errors.push(...validateLabel(value.label, `${path}.label`));
+  if (value.severity !== undefined && !SEVERITIES.includes(value.severity as Severity)) {
+    errors.push(`${path}.severity must be one of: ${SEVERITIES.join(', ')}`);
+  }
+  if (!Array.isArray(value.replies)) {
+    errors.push(`${path}.replies must be an array`);
+  } else {
+    value.replies.forEach((r, i) => errors.push(...validateReply(r, `${path}.replies[${i}]`)));
+  }
+  if (value.activity !== undefined) {
+    if (!Array.isArray(value.activity)) {
+      errors.push(`${path}.activity must be an array`);
+    } else {
+      value.activity.forEach((e, i) => errors.push(...validateActivityEvent(e, `${path}.activity[${i}]`)));
+    }
+  }
+  return errors;
+}
+
+export function isAnnotation(value: unknown): value is Annotation {
+  return validateAnnotation(value).length === 0;
+}
+
+// --- Migrations -------------------------------------------------------------
+
+// migrations[n] upgrades a version-n document to version n + 1.
+// Migrations run before validation, so they must tolerate malformed entries.
+const migrations: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+  // v0: a bare annotation array (or { annotations } from the first server store),
+  // with ids from Date.now() that may collide and optional replies/completed.
+  0: (doc) => {
+    const seen = new Set<string>();
+    const uniqueId = (id: unknown) => {
+      const next = typeof id === 'string' && !seen.has(id) ? id : createId();
+      seen.add(next);
+      return next;
+    };
+
+    const annotations = Array.isArray(doc.annotations) ? doc.annotations : [];
+    return {
+      ...doc,
+      version: 1,
+      annotations: annotations.map((entry: unknown) => {
+        if (!isObject(entry)) return entry;
+        const replies = Array.isArray(entry.replies) ? entry.replies : [];
+        return {
+          ...entry,
+          id: uniqueId(entry.id),
+          replies: replies.map((reply: unknown) =>
+            isObject(reply) ? { ...reply, id: uniqueId(reply.id) } : reply
+          ),
+          completed: entry.completed ?? false,
+        };
+      }),
+    };
+  },
+  // v1: annotations and replies without an author
+  1: (doc) => {
+    const withAuthor = (entry: unknown) =>
+      isObject(entry) && entry.author === undefined ? { ...entry, author: UNKNOWN_AUTHOR } : entry;
+
+    const annotations = Array.isArray(doc.annotations) ? doc.annotations : [];
+    return {
+      ...doc,
+      version: 2,
+      annotations: annotations.map((entry: unknown) => {
+        if (!isObject(entry)) return entry;
+        const replies = Array.isArray(entry.replies) ? entry.replies.map(withAuthor) : entry.replies;
+        return withAuthor({ ...entry, replies });
+      }),
+    };
+  },
+  // v2: only rect and brush highlights existed. Nothing to convert; the bump
+  // keeps older clients from quarantining highlight types they don't know.
+  2: (doc) => ({ ...doc, version: 3 }),
+  // v3: no pins yet; likewise unchanged
+  3: (doc) => ({ ...doc, version: 4 }),
+  // v4: strokes had no pressure and keep their fixed width
+  4: (doc) => ({ ...doc, version: 5 }),
+  // v5: stroke points were saved as arrays. Those are still read as they are;
+  // the bump keeps older clients from quarantining encoded strokes.
+  5: (doc) => ({ ...doc, version: 6 }),
+  // v6: coordinates were in the editor's canvas pixels, which are downscaled
+  // for images over MAX_CANVAS_DIMENSION. Converting needs the image's size,
+  // so the document is flagged and adoptImageSize converts it once that is known.
+  6: (doc) => ({ ...doc, version: 7, canvasCoordinates: true }),
+  // v7: a `completed` flag, with completedAt/completedBy, instead of a status.
+  // A flag that isn't a boolean is left in place to fail validation.
+  7: (doc) => {
+    const annotations = Array.isArray(doc.annotations) ? doc.annotations : [];
+    return {
+      ...doc,
+      version: 8,
+      annotations: annotations.map((entry: unknown) => {
+        if (!isObject(entry) || typeof entry.completed !== 'boolean') return entry;
+        const { completed, completedAt, completedBy, ...rest } = entry;
+        return {
+          ...rest,
+          status: completed ? 'resolved' : 'open',
+          ...(completed && completedAt !== undefined && { statusChangedAt: completedAt }),
+          ...(completed && completedBy !== undefined && { statusChangedBy: completedBy }),
+        };
+      }),
+    };
+  },
+  // v8: no `deleted` list, and no delete, restore or import events in activity
+  // logs. Nothing to convert; the bump keeps older clients from dropping the
+  // deleted annotations and quarantining those events.
+  8: (doc) => ({ ...doc, version: 9 }),
+};
+
+function migrate(doc: Record<string, unknown>): Record<string, unknown> {
+  let current = doc;
+  let version = isFiniteNumber(current.version) ? current.version : 0;
+  while (version < CURRENT_DOCUMENT_VERSION) {
+    const step = migrations[version];
+    if (!step) throw new Error(`No migration from document version ${version}`);
+    current = step(current);
+    version = current.version as number;
+  }
+  return current;
+}
+
+// --- Parsing ----------------------------------------------------------------
+
+export function createEmptyDocument(imageId: string): AnnotationDocument {
+  return {
+    version: CURRENT_DOCUMENT_VERSION,
+    imageId,
+    updatedAt: Date.now(),
+    annotations: [],
+    deleted: [],
+    quarantined: [],
+  };
+}
+
+// Upgrade and validate saved data of any known version. Invalid annotations are
+// moved to `quarantined`; an unreadable payload is quarantined as a whole.
+export function parseAnnotationDocument(raw: unknown, imageId: string): ParseResult {
+  const now = Date.now();
+  const quarantineAll = (errors: string[]): ParseResult => {
+    const entry: QuarantinedEntry = { entry: raw, errors, quarantinedAt: now };
+    return {
+      document: { ...createEmptyDocument(imageId), quarantined: [entry] },
+      newlyQuarantined: [entry],
+    };
+  };
+
+  const wrapped = Array.isArray(raw) ? { annotations: raw } : raw;
+  if (!isObject(wrapped)) return quarantineAll(['document must be an object or array']);
+  if (isFiniteNumber(wrapped.version) && wrapped.version > CURRENT_DOCUMENT_VERSION) {
+    return quarantineAll([`document version ${wrapped.version} is newer than supported (${CURRENT_DOCUMENT_VERSION})`]);
+  }
+
+  let migrated: Record<string, unknown>;
+  try {
+    migrated = migrate(wrapped);
+  } catch (err) {
+    return quarantineAll([err instanceof Error ? err.message : String(err)]);
+  }
+
+  const newlyQuarantined: QuarantinedEntry[] = [];
+  const readList = (key: 'annotations' | 'deleted') => {
+    const list: Annotation[] = [];
+    const entries = Array.isArray(migrated[key]) ? migrated[key].map(decodeStrokes) : [];
+    entries.forEach((entry: unknown, i: number) => {
+      const errors = validateAnnotation(entry, `${key}[${i}]`);
+      if (errors.length === 0) {
+        list.push(entry as Annotation);
+      } else {
+        newlyQuarantined.push({ entry, errors, quarantinedAt: now });
+      }
+    });
+    return list;
+  };
+  const annotations = readList('annotations');
+  const deleted = readList('deleted');
+
+  const previous = Array.isArray(migrated.quarantined)
+    ? (migrated.quarantined as QuarantinedEntry[])
+    : [];
+
+  return {
+    document: {
+      version: CURRENT_DOCUMENT_VERSION,
+      imageId,
+      updatedAt: isFiniteNumber(migrated.updatedAt) ? migrated.updatedAt : now,
+      annotations,
+      deleted,
+      quarantined: [...previous, ...newlyQuarantined],
+      ...(validateImageSize(migrated.imageSize).length === 0 && { imageSize: migrated.imageSize as ImageSize }),
+      ...(migrated.canvasCoordinates === true && { canvasCoordinates: true }),
+    },
+    newlyQuarantined,
+  };
+}
+
+// Record the image's size on a document, first converting the coordinates of a
+// pre-v7 document from the canvas the editor showed it on to source pixels.
+// Quarantined entries are left as they were saved.
+export function adoptImageSize(doc: AnnotationDocument, imageSize: ImageSize): AnnotationDocument {
+  const { canvasCoordinates, ...rest } = doc;
+  if (!canvasCoordinates) return { ...rest, imageSize };
+  const factor = imageSize.width / getCanvasSize(imageSize).width;
+  const scale = (a: Annotation) => ({ ...a, highlight: scaleHighlight(a.highlight, factor) });
+  return { ...rest, imageSize, annotations: doc.annotations.map(scale), deleted: doc.deleted.map(scale) };
+}
+
+// --- Compact strokes --------------------------------------------------------
+
+// Saved documents hold brush stroke points as text (`path`, plus `pressure` for
+// stylus strokes) rather than arrays of {x, y} objects; see strokes.ts.
+
+function mapBrushStrokes(entry: unknown, mapStroke: (stroke: unknown) => unknown): unknown {
+  if (!isObject(entry) || !isObject(entry.highlight)) return entry;
+  const { highlight } = entry;
+  if (highlight.type !== 'brush' || !Array.isArray(highlight.strokes)) return entry;
+  return { ...entry, highlight: { ...highlight, strokes: highlight.strokes.map(mapStroke) } };
+}
+
+function encodeStroke(stroke: BrushStroke) {
+  const { points, pressures, ...rest } = stroke;
+  return { ...rest, path: encodePoints(points), ...(pressures && { pressure: encodePressures(pressures) }) };
+}
+
+// Strokes that don't decode are left as they are and fail validation
+function decodeStroke(value: unknown): unknown {
+  if (!isObject(value) || typeof value.path !== 'string') return value;
+  const { path, pressure, ...rest } = value;
+  const points = decodePoints(path);
+  const pressures = typeof pressure === 'string' ? decodePressures(pressure) : undefined;
+  if (!points || pressures === null) return value;
+  return { ...rest, points, ...(pressures && { pressures }) };
+}
+
+const decodeStrokes = (entry: unknown) => mapBrushStrokes(entry, decodeStroke);
+
+// The form a document is saved in, locally and on the server
+export function encodeDocument(doc: AnnotationDocument): Record<string, unknown> {
+  const encode = (a: Annotation) => mapBrushStrokes(a, stroke => encodeStroke(stroke as BrushStroke));
+  return { ...doc, annotations: doc.annotations.map(encode), deleted: doc.deleted.map(encode) };
+}
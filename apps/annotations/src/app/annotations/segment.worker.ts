@@ -0,0 +1,190 @@
+import type { SegmentRequest, SegmentResponse } from './segmentation';
+import type { Point } from './types';
+
+// Region and edge finding for the magic wand and the edge-snapping lasso, on
+// the pixels of one image. The wand flood-fills similar colors from a point and
+// traces the filled area's outline; snapping moves each point of a drawn
+// outline across it onto the strongest nearby edge.
+
+// Sobel magnitude (on 0-255 luminance) below which there is no edge to snap to
+const EDGE_THRESHOLD = 40;
+
+// Spacing of the points along a snapped outline
+const SNAP_STEP = 2;
+
+let pixels: Uint8ClampedArray | null = null;
+let width = 0;
+let height = 0;
+let gradient: Float32Array | null = null; // Built on first snap
+
+const reply = (response: SegmentResponse) => self.postMessage(response);
+
+function open(image: ImageBitmap) {
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  ctx.drawImage(image, 0, 0);
+  image.close();
+  ({ width, height } = canvas);
+  pixels = ctx.getImageData(0, 0, width, height).data;
+  gradient = null;
+}
+
+// 4-connected flood fill of the pixels within `tolerance` of the seed's color
+function fillRegion(data: Uint8ClampedArray, seedX: number, seedY: number, tolerance: number): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  const seed = (seedY * width + seedX) * 4;
+  const [r, g, b] = [data[seed], data[seed + 1], data[seed + 2]];
+  const limit = tolerance * tolerance;
+  const matches = (i: number) => {
+    const dr = data[i * 4] - r;
+    const dg = data[i * 4 + 1] - g;
+    const db = data[i * 4 + 2] - b;
+    return dr * dr + dg * dg + db * db <= limit;
+  };
+
+  const stack = [seedY * width + seedX];
+  mask[stack[0]] = 1;
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+    for (const n of neighbours) {
+      if (n < 0 || n >= mask.length || mask[n] || !matches(n)) continue;
+      mask[n] = 1;
+      stack.push(n);
+    }
+  }
+  return mask;
+}
+
+// Right, down, left, up
+const DIRECTIONS = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+
+// Outer outline of the filled area in the mask, as the corners of its edge
+// pixels. Walks the pixel edges clockwise, keeping the area on the right.
+function traceOutline(mask: Uint8Array): Point[] {
+  const start = mask.indexOf(1);
+  if (start < 0) return [];
+  const filled = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+  // Is the pixel ahead of corner (x, y) filled, on the given side of direction d?
+  const ahead = (x: number, y: number, d: number, side: 1 | -1) => {
+    const [dx, dy] = DIRECTIONS[d];
+    const rx = -dy * side;
+    const ry = dx * side;
+    return filled(x + Math.min(0, dx, rx, dx + rx), y + Math.min(0, dy, ry, dy + ry));
+  };
+
+  const startX = start % width;
+  const startY = Math.floor(start / width);
+  const outline: Point[] = [];
+  let x = startX;
+  let y = startY;
+  let d = 0;
+  // Each pixel edge is walked at most once
+  for (let steps = 0; steps <= 4 * mask.length; steps++) {
+    x += DIRECTIONS[d][0];
+    y += DIRECTIONS[d][1];
+    const next = ahead(x, y, d, -1) ? (d + 3) % 4 : ahead(x, y, d, 1) ? d : (d + 1) % 4;
+    if (next !== d) outline.push({ x, y });
+    d = next;
+    if (x === startX && y === startY && d === 0) break;
+  }
+  return outline;
+}
+
+function getGradient(data: Uint8ClampedArray): Float32Array {
+  if (gradient) return gradient;
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  gradient = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => luma[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      gradient[y * width + x] = Math.hypot(gx, gy);
+    }
+  }
+  return gradient;
+}
+
+// The closed outline through `points`, resampled every SNAP_STEP pixels
+function resampleClosed(points: Point[]): Point[] {
+  const out: Point[] = [];
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const count = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / SNAP_STEP));
+    for (let j = 0; j < count; j++) {
+      out.push({ x: a.x + ((b.x - a.x) * j) / count, y: a.y + ((b.y - a.y) * j) / count });
+    }
+  });
+  return out;
+}
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+// Each point moves along the outline's normal to the strongest edge within
+// `radius`, nearer edges winning ties. The moves are then median filtered so
+// one point catching a different edge doesn't leave a spike.
+function snapOutline(data: Uint8ClampedArray, points: Point[], radius: number): Point[] {
+  const magnitude = getGradient(data);
+  const path = resampleClosed(points);
+  const n = path.length;
+  const normals = path.map((_, i) => {
+    const prev = path[(i + n - 1) % n];
+    const next = path[(i + 1) % n];
+    const length = Math.hypot(next.x - prev.x, next.y - prev.y) || 1;
+    return { x: -(next.y - prev.y) / length, y: (next.x - prev.x) / length };
+  });
+  const offsets = path.map((p, i) => {
+    let best = 0;
+    let bestScore = 0;
+    for (let s = -Math.ceil(radius); s <= radius; s++) {
+      const x = Math.round(p.x + s * normals[i].x);
+      const y = Math.round(p.y + s * normals[i].y);
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      const strength = magnitude[y * width + x];
+      const score = strength * (1 - (0.5 * Math.abs(s)) / (radius + 1));
+      if (strength >= EDGE_THRESHOLD && score > bestScore) {
+        best = s;
+        bestScore = score;
+      }
+    }
+    return best;
+  });
+  return path.map((p, i) => {
+    const window = [-2, -1, 0, 1, 2].map(k => offsets[(i + k + n) % n]);
+    const s = median(window);
+    return { x: p.x + s * normals[i].x, y: p.y + s * normals[i].y };
+  });
+}
+
+self.addEventListener('message', (e: MessageEvent<SegmentRequest>) => {
+  const request = e.data;
+  try {
+    if (request.type === 'open') {
+      open(request.image);
+      reply({ id: request.id, type: 'opened' });
+      return;
+    }
+    if (!pixels) throw new Error('No image is open');
+    switch (request.type) {
+      case 'region': {
+        const x = Math.floor(request.x);
+        const y = Math.floor(request.y);
+        const inside = x >= 0 && y >= 0 && x < width && y < height;
+        const points = inside ? traceOutline(fillRegion(pixels, x, y, request.tolerance)) : [];
+        reply({ id: request.id, type: 'points', points });
+        break;
+      }
+      case 'snap':
+        reply({ id: request.id, type: 'points', points: snapOutline(pixels, request.points, request.radius) });
+        break;
+    }
+  } catch (err) {
+    reply({ id: request.id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+});
@@ -0,0 +1,101 @@
+import { Point } from './types';
+
+// Client side of segment.worker.ts, which finds regions and edges in the open
+// image: the magic wand and the edge-snapping lasso. Everything runs locally;
+// each job hands the worker the part of the image it looks at, sampled as
+// finely as the view shows it, and points cross over in source image pixels.
+
+export type SegmentRequest =
+  | { id: number; type: 'open'; image: ImageBitmap }
+  // Points in the worker's image pixels
+  | { id: number; type: 'region'; x: number; y: number; tolerance: number }
+  | { id: number; type: 'snap'; points: Point[]; radius: number };
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+// Part of the source image: `image` shows the source pixels from (x, y) at
+// `scale` image pixels per source pixel
+export interface SegmentArea {
+  image: ImageBitmap;
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export type SegmentResponse =
+  | { id: number; type: 'opened' }
+  // Empty when the start point is outside the image
+  | { id: number; type: 'points'; points: Point[] }
+  | { id: number; type: 'error'; message: string };
+
+// Both take ownership of the area's image
+export interface Segmenter {
+  // Outline of the part of `area` around `point` whose colors are within
+  // `tolerance` (0-255, distance in RGB) of the color under it; null if there is none
+  selectRegion: (area: SegmentArea, point: Point, tolerance: number) => Promise<Point[] | null>;
+  // `points` moved onto the strongest edge of `area` within `radius` of them, where there is one
+  snapToEdges: (area: SegmentArea, points: Point[], radius: number) => Promise<Point[]>;
+  dispose: () => void;
+}
+
+export function createSegmenter(): Segmenter {
+  const worker = new Worker(new URL('./segment.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (response: SegmentResponse) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+  let disposed = false;
+
+  worker.addEventListener('message', (e: MessageEvent<SegmentResponse>) => {
+    const response = e.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if (response.type === 'error') request.reject(new Error(response.message));
+    else request.resolve(response);
+  });
+  worker.addEventListener('error', e => {
+    const error = new Error(e.message || 'Segmentation worker failed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  });
+
+  const send = (request: WithoutId<SegmentRequest>, transfer: Transferable[] = []): Promise<SegmentResponse> => {
+    if (disposed) return Promise.reject(new Error('Segmenter was disposed'));
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      worker.postMessage({ ...request, id }, { transfer });
+    });
+  };
+
+  // The worker handles messages in order, so the job runs on the area opened just before it
+  const getPoints = async (area: SegmentArea, request: (toImage: (p: Point) => Point) => WithoutId<SegmentRequest>) => {
+    const { image, x, y, scale } = area;
+    const [, response] = await Promise.all([
+      send({ type: 'open', image }, [image]),
+      send(request(p => ({ x: (p.x - x) * scale, y: (p.y - y) * scale }))),
+    ]);
+    if (response.type !== 'points') throw new Error(`Unexpected ${response.type} response`);
+    return response.points.map(p => ({ x: x + p.x / scale, y: y + p.y / scale }));
+  };
+
+  const dispose = () => {
+    disposed = true;
+    worker.terminate();
+    const error = new Error('Segmenter was disposed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  return {
+    selectRegion: async (area, point, tolerance) => {
+      const points = await getPoints(area, toImage => ({ type: 'region', ...toImage(point), tolerance }));
+      return points.length >= 3 ? points : null;
+    },
+    snapToEdges: (area, points, radius) => getPoints(area, toImage => ({
+      type: 'snap',
+      points: points.map(toImage),
+      radius: radius * area.scale,
+    })),
+    dispose,
+  };
+}
@@ -0,0 +1,150 @@
+import { Annotation, Point } from './types';
+import {
+  Bounds,
+  distanceToLineSegment,
+  getArrowHitRadius,
+  getHighlightBounds,
+  getStrokeHitRadius,
+  isPointInHighlight,
+  PIN_HEAD_RADIUS,
+  PIN_HEIGHT,
+} from './geometry';
+
+// Uniform grid over the pieces of each annotation (stroke segments, arrow
+// shafts, shape bounds), so hit testing and viewport culling only look at what
+// is nearby instead of every annotation and every stroke. Annotations are
+// immutable, so syncing re-inserts only those whose object has changed.
+
+export interface SpatialIndex {
+  sync: (annotations: Annotation[]) => void;
+  // Ids of the annotations under a point; `scale` sizes pin markers (see getPinHead)
+  hitTest: (point: Point, scale: number) => Set<string>;
+  // Ids of the annotations with a piece inside the bounds
+  query: (bounds: Bounds) => Set<string>;
+}
+
+interface IndexEntry {
+  id: string;
+  bounds: Bounds;
+  hit: (point: Point, scale: number) => boolean;
+}
+
+const CELL_SIZE = 256; // Image pixels
+
+function getEntries(annotation: Annotation): IndexEntry[] {
+  const { id, highlight } = annotation;
+  const segment = (a: Point, b: Point, radius: number): IndexEntry => ({
+    id,
+    bounds: {
+      minX: Math.min(a.x, b.x) - radius,
+      minY: Math.min(a.y, b.y) - radius,
+      maxX: Math.max(a.x, b.x) + radius,
+      maxY: Math.max(a.y, b.y) + radius,
+    },
+    hit: point => distanceToLineSegment(point, a, b) <= radius,
+  });
+
+  switch (highlight.type) {
+    case 'brush':
+      return highlight.strokes.flatMap(stroke => {
+        const radius = getStrokeHitRadius(stroke.brushSize);
+        return stroke.points.slice(1).map((p, i) => segment(stroke.points[i], p, radius));
+      });
+    case 'arrow':
+      return [segment(highlight.start, highlight.end, getArrowHitRadius(highlight.lineWidth))];
+    case 'pin': {
+      // The marker's size follows the zoom, so pins are indexed by their tip and queries are padded
+      const { x, y } = highlight;
+      return [{ id, bounds: { minX: x, minY: y, maxX: x, maxY: y }, hit: (point, scale) => isPointInHighlight(point, highlight, scale) }];
+    }
+    default:
+      return [{ id, bounds: getHighlightBounds(highlight), hit: point => isPointInHighlight(point, highlight) }];
+  }
+}
+
+const intersects = (a: Bounds, b: Bounds) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+export function createSpatialIndex(): SpatialIndex {
+  const cells = new Map<string, Set<IndexEntry>>();
+  const indexed = new Map<string, { annotation: Annotation; entries: IndexEntry[] }>();
+
+  const forEachCell = (bounds: Bounds, visit: (key: string) => void) => {
+    const x0 = Math.floor(bounds.minX / CELL_SIZE);
+    const x1 = Math.floor(bounds.maxX / CELL_SIZE);
+    const y0 = Math.floor(bounds.minY / CELL_SIZE);
+    const y1 = Math.floor(bounds.maxY / CELL_SIZE);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) visit(`${cx},${cy}`);
+    }
+  };
+
+  const insert = (annotation: Annotation) => {
+    const entries = getEntries(annotation);
+    for (const entry of entries) {
+      forEachCell(entry.bounds, key => {
+        let cell = cells.get(key);
+        if (!cell) cells.set(key, (cell = new Set()));
+        cell.add(entry);
+      });
+    }
+    indexed.set(annotation.id, { annotation, entries });
+  };
+
+  const remove = (id: string) => {
+    const item = indexed.get(id);
+    if (!item) return;
+    for (const entry of item.entries) {
+      forEachCell(entry.bounds, key => {
+        const cell = cells.get(key);
+        cell?.delete(entry);
+        if (cell?.size === 0) cells.delete(key);
+      });
+    }
+    indexed.delete(id);
+  };
+
+  // Each entry once, even when it spans several cells
+  const collect = (bounds: Bounds, visit: (entry: IndexEntry) => void) => {
+    const seen = new Set<IndexEntry>();
+    forEachCell(bounds, key => {
+      cells.get(key)?.forEach(entry => {
+        if (seen.has(entry)) return;
+        seen.add(entry);
+        visit(entry);
+      });
+    });
+  };
+
+  return {
+    sync: (annotations) => {
+      const current = new Set<string>();
+      for (const annotation of annotations) {
+        current.add(annotation.id);
+        if (indexed.get(annotation.id)?.annotation === annotation) continue;
+        remove(annotation.id);
+        insert(annotation);
+      }
+      for (const id of [...indexed.keys()]) {
+        if (!current.has(id)) remove(id);
+      }
+    },
+
+    hitTest: (point, scale) => {
+      const pad = (PIN_HEIGHT + PIN_HEAD_RADIUS) * scale;
+      const hits = new Set<string>();
+      collect({ minX: point.x - pad, minY: point.y - pad, maxX: point.x + pad, maxY: point.y + pad }, entry => {
+        if (!hits.has(entry.id) && entry.hit(point, scale)) hits.add(entry.id);
+      });
+      return hits;
+    },
+
+    query: (bounds) => {
+      const ids = new Set<string>();
+      collect(bounds, entry => {
+        if (intersects(entry.bounds, bounds)) ids.add(entry.id);
+      });
+      return ids;
+    },
+  };
+}
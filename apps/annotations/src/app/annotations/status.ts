@@ -0,0 +1,83 @@
+import { ActivityEvent, Annotation, AnnotationStatus } from './types';
+import { STATUSES } from './schema';
+
+// The review workflow. Work moves forward from Open through In Progress and
+// Needs Review to a close; a review can send it back, and anything closed can
+// be reopened, straight back into work or review if need be. That way every
+// move can be undone by the move back, which matters because the server holds
+// saves to these moves too (see actions.ts).
+
+export const STATUS_NAMES: Record<AnnotationStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  needs_review: 'Needs Review',
+  resolved: 'Resolved',
+  wont_fix: "Won't Fix",
+};
+
+// Badge classes
+export const STATUS_STYLES: Record<AnnotationStatus, string> = {
+  open: 'bg-gray-100 text-gray-600',
+  in_progress: 'bg-amber-100 text-amber-700',
+  needs_review: 'bg-violet-100 text-violet-700',
+  resolved: 'bg-green-100 text-green-700',
+  wont_fix: 'bg-gray-200 text-gray-500',
+};
+
+// How an annotation in each status is outlined on the canvas, dashes in
+// screen pixels. Open ones are drawn as they always were.
+export const STATUS_OUTLINES: Record<AnnotationStatus, { rgb: string; dash: number[] } | null> = {
+  open: null,
+  in_progress: { rgb: '245, 158, 11', dash: [8, 4] },
+  needs_review: { rgb: '139, 92, 246', dash: [2, 3] },
+  resolved: { rgb: '255, 255, 255', dash: [4, 4] },
+  wont_fix: { rgb: '156, 163, 175', dash: [1, 5] },
+};
+
+const TRANSITIONS: Record<AnnotationStatus, AnnotationStatus[]> = {
+  open: ['in_progress', 'resolved', 'wont_fix'],
+  in_progress: ['open', 'needs_review', 'resolved', 'wont_fix'],
+  needs_review: ['in_progress', 'resolved', 'wont_fix'],
+  resolved: ['open', 'in_progress', 'needs_review'],
+  wont_fix: ['open', 'in_progress', 'needs_review'],
+};
+
+export const OPEN_STATUSES = STATUSES.filter(s => !isClosed(s));
+export const CLOSED_STATUSES = STATUSES.filter(isClosed);
+
+export function isClosed(status: AnnotationStatus): boolean {
+  return status === 'resolved' || status === 'wont_fix';
+}
+
+export function canTransition(from: AnnotationStatus, to: AnnotationStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+// Replays the status moves in `events` from `from`, keeping those the workflow
+// allows from where the annotation then is. Moves made on a copy that had
+// fallen behind (another reviewer closed it meanwhile, say) don't fit and are
+// left out, along with anything that isn't a status move.
+export function replayStatusEvents(from: AnnotationStatus, events: ActivityEvent[]) {
+  let status = from;
+  const moves: ActivityEvent[] = [];
+  for (const event of events) {
+    if (event.type !== 'status') continue;
+    const next = event.after as AnnotationStatus;
+    if (event.before !== status || !canTransition(status, next)) continue;
+    moves.push(event);
+    status = next;
+  }
+  return { status, moves };
+}
+
+// The statuses an annotation can move to next, in workflow order
+export function nextStatuses(from: AnnotationStatus): AnnotationStatus[] {
+  return STATUSES.filter(s => canTransition(from, s));
+}
+
+// The annotations in each of `statuses` that has any, keeping their order
+export function groupByStatus(annotations: Annotation[], statuses: AnnotationStatus[]) {
+  return statuses
+    .map(status => ({ status, annotations: annotations.filter(a => a.status === status) }))
+    .filter(group => group.annotations.length > 0);
+}
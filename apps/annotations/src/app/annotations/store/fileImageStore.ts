@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ImageStore } from './types';
+
+interface ImageMeta {
+  contentType: string;
+  size: number;
+  savedAt: number;
+}
+
+// Stores each image as `<imageId>` next to a small `<imageId>.json` holding its
+// content type. Images are addressed by content hash, so they never change
+// once written and repeated writes are skipped.
+export function createFileImageStore(directory: string): ImageStore {
+  const dataPath = (imageId: string) => path.join(directory, imageId);
+  const metaPath = (imageId: string) => path.join(directory, `${imageId}.json`);
+
+  const exists = async (file: string) => {
+    try {
+      await fs.access(file);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  return {
+    read: async (imageId) => {
+      try {
+        const [data, rawMeta] = await Promise.all([
+          fs.readFile(dataPath(imageId)),
+          fs.readFile(metaPath(imageId), 'utf8'),
+        ]);
+        const meta = JSON.parse(rawMeta) as ImageMeta;
+        return { data: new Uint8Array(data), contentType: meta.contentType };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    // The meta file is written last, so its presence means the image is complete
+    has: (imageId) => exists(metaPath(imageId)),
+
+    write: async (imageId, image) => {
+      if (await exists(metaPath(imageId))) return;
+      await fs.mkdir(directory, { recursive: true });
+      const tempPath = `${dataPath(imageId)}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, image.data);
+      await fs.rename(tempPath, dataPath(imageId));
+      const meta: ImageMeta = { contentType: image.contentType, size: image.data.byteLength, savedAt: Date.now() };
+      await fs.writeFile(metaPath(imageId), JSON.stringify(meta), 'utf8');
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import path from 'path';
+import { createJsonFileStore } from './jsonFileStore';
+import { createFileImageStore } from './fileImageStore';
+import { AnnotationStore, ImageStore } from './types';
+
+export type { AnnotationStore, ImageStore, StoredImage } from './types';
+
+let store: AnnotationStore | null = null;
+let imageStore: ImageStore | null = null;
+
+// Returns the configured store. Swap the factory here to use a database adapter.
+export function getAnnotationStore(): AnnotationStore {
+  if (!store) {
+    const filePath = process.env.ANNOTATIONS_STORE_FILE
+      ?? path.join(process.cwd(), 'data', 'annotations.json');
+    store = createJsonFileStore(filePath);
+  }
+  return store;
+}
+
+// Returns the configured image store. Swap the factory here for object storage.
+export function getImageStore(): ImageStore {
+  if (!imageStore) {
+    const directory = process.env.ANNOTATIONS_IMAGE_DIR
+      ?? path.join(process.cwd(), 'data', 'images');
+    imageStore = createFileImageStore(directory);
+  }
+  return imageStore;
+}
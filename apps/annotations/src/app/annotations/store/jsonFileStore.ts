@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ImageSize } from '../types';
+import {
+  adoptImageSize,
+  AnnotationDocument,
+  AnnotationLists,
+  CURRENT_DOCUMENT_VERSION,
+  encodeDocument,
+  parseAnnotationDocument,
+} from '../schema';
+import { AnnotationStore } from './types';
+
+interface StoreFile {
+  // Raw documents of any version; upgraded and validated when read
+  documents: Record<string, unknown>;
+}
+
+// Keeps every image's document in a single JSON file. Writes are
+// serialized through a promise queue and land via temp file + rename,
+// so concurrent requests never interleave or leave a half-written file.
+export function createJsonFileStore(filePath: string): AnnotationStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const readFile = async (): Promise<StoreFile> => {
+    try {
+      const raw = await fs.readFile(filePath, 'utf8');
+      const parsed = JSON.parse(raw);
+      if (parsed && typeof parsed === 'object' && parsed.documents) {
+        return parsed as StoreFile;
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    }
+    return { documents: {} };
+  };
+
+  const writeFile = async (data: StoreFile) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  };
+
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    // Keep the queue alive even if this task fails
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const parse = (raw: unknown, imageId: string) => {
+    const { document, newlyQuarantined } = parseAnnotationDocument(raw, imageId);
+    if (newlyQuarantined.length > 0) {
+      console.warn(`Quarantined ${newlyQuarantined.length} invalid annotation(s) for image ${imageId}`);
+    }
+    return document;
+  };
+
+  return {
+    read: (imageId) =>
+      enqueue(async () => {
+        const raw = (await readFile()).documents[imageId];
+        return raw === undefined ? null : parse(raw, imageId);
+      }),
+
+    update: (imageId: string, mutate: (lists: AnnotationLists) => AnnotationLists, imageSize?: ImageSize) =>
+      enqueue(async () => {
+        const data = await readFile();
+        const raw = data.documents[imageId];
+        const parsed = raw === undefined ? null : parse(raw, imageId);
+        const current = parsed && imageSize ? adoptImageSize(parsed, imageSize) : parsed;
+        const size = imageSize ?? current?.imageSize;
+        const { annotations, deleted } = mutate({ annotations: current?.annotations ?? [], deleted: current?.deleted ?? [] });
+        const doc: AnnotationDocument = {
+          version: CURRENT_DOCUMENT_VERSION,
+          imageId,
+          updatedAt: Date.now(),
+          annotations,
+          deleted,
+          quarantined: current?.quarantined ?? [],
+          ...(size && { imageSize: size }),
+          ...(current?.canvasCoordinates && { canvasCoordinates: true }),
+        };
+        data.documents[imageId] = encodeDocument(doc);
+        await writeFile(data);
+        return doc;
+      }),
+  };
+}
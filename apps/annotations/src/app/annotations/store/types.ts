@@ -0,0 +1,29 @@
+import { ImageSize } from '../types';
+import { AnnotationDocument, AnnotationLists } from '../schema';
+
+// Persistence adapter behind the annotation server actions.
+// Implement this interface to move reviews into a database; `update`
+// must apply the mutation atomically (e.g. inside a transaction). When
+// `imageSize` is given it is recorded on the document, and a document still in
+// canvas coordinates is converted before the mutation (see adoptImageSize).
+export interface AnnotationStore {
+  read(imageId: string): Promise<AnnotationDocument | null>;
+  update(
+    imageId: string,
+    mutate: (lists: AnnotationLists) => AnnotationLists,
+    imageSize?: ImageSize
+  ): Promise<AnnotationDocument>;
+}
+
+export interface StoredImage {
+  data: Uint8Array;
+  contentType: string;
+}
+
+// Holds the original bytes of each annotated image, keyed by image id, so a
+// review can be reopened later or on another machine.
+export interface ImageStore {
+  read(imageId: string): Promise<StoredImage | null>;
+  has(imageId: string): Promise<boolean>;
+  write(imageId: string, image: StoredImage): Promise<void>;
+}
@@ -0,0 +1,227 @@
+import { BrushStroke, Point } from './types';
+import { distanceToLineSegment } from './geometry';
+
+// Brush and lasso input arrives as one point per pointer event. Committed
+// strokes are smoothed and simplified, can be cut apart by the eraser, and
+// saved documents store their points as compact text instead of arrays of
+// {x, y} objects.
+
+// --- Simplification ---------------------------------------------------------
+
+// 1-2-1 average of each interior value and its neighbours; takes the jitter out of raw input
+const smooth = (values: number[]) =>
+  values.map((v, i) => (i === 0 || i === values.length - 1 ? v : (values[i - 1] + 2 * v + values[i + 1]) / 4));
+
+function smoothPoints(points: Point[]): Point[] {
+  const xs = smooth(points.map(p => p.x));
+  const ys = smooth(points.map(p => p.y));
+  return xs.map((x, i) => ({ x, y: ys[i] }));
+}
+
+// Distance from `p` to segment a-b, and where along the segment it projects (0-1)
+function projectOntoSegment(p: Point, a: Point, b: Point) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return { distance: Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy)), t };
+}
+
+// Ramer-Douglas-Peucker: indices of the points to keep so that no dropped point
+// is more than `tolerance` from the simplified line. `radii` (optional) adds the
+// error in stroke radius, so pressure changes survive simplification too.
+function simplifyIndices(points: Point[], tolerance: number, radii?: number[]): number[] {
+  if (points.length < 3) return points.map((_, i) => i);
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+
+  // Iterative, so very long strokes can't overflow the call stack
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let worst = -1;
+    let worstError = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const { distance, t } = projectOntoSegment(points[i], points[first], points[last]);
+      const radiusError = radii ? Math.abs(radii[i] - (radii[first] + t * (radii[last] - radii[first]))) : 0;
+      const error = Math.max(distance, radiusError);
+      if (error > worstError) {
+        worst = i;
+        worstError = error;
+      }
+    }
+    if (worst < 0) continue;
+    keep[worst] = true;
+    ranges.push([first, worst], [worst, last]);
+  }
+  return keep.flatMap((kept, i) => (kept ? [i] : []));
+}
+
+export function simplifyPoints(points: Point[], tolerance: number): Point[] {
+  const smoothed = smoothPoints(points);
+  return simplifyIndices(smoothed, tolerance).map(i => smoothed[i]);
+}
+
+// `tolerance` is in image pixels; strokes are drawn as curves through the
+// remaining points (see drawStroke), which hides the dropped detail.
+export function simplifyStroke(stroke: BrushStroke, tolerance: number): BrushStroke {
+  const points = smoothPoints(stroke.points);
+  const pressures = stroke.pressures && smooth(stroke.pressures);
+  const radii = pressures?.map(p => (p * stroke.brushSize) / 2);
+  const kept = simplifyIndices(points, tolerance, radii);
+  return {
+    ...stroke,
+    points: kept.map(i => points[i]),
+    ...(pressures && { pressures: kept.map(i => pressures[i]) }),
+  };
+}
+
+// --- Erasing ----------------------------------------------------------------
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Closest distance between segments p-q and a-b
+function distanceBetweenSegments(p: Point, q: Point, a: Point, b: Point): number {
+  const crosses = cross(p, q, a) * cross(p, q, b) < 0 && cross(a, b, p) * cross(a, b, q) < 0;
+  if (crosses) return 0;
+  return Math.min(
+    distanceToLineSegment(p, a, b),
+    distanceToLineSegment(q, a, b),
+    distanceToLineSegment(a, p, q),
+    distanceToLineSegment(b, p, q)
+  );
+}
+
+// What is left of a stroke after the eraser, a disc of `radius`, moves from
+// `from` to `to`. Paint is removed where the disc covers it, so a stroke can
+// split into several; pieces of fewer than two points are dropped. Segments
+// the eraser touches are subdivided first, since simplified strokes can have
+// long segments between their points; the added samples only stay where a
+// piece now ends, so erasing does not bloat what is left.
+export function eraseStroke(stroke: BrushStroke, from: Point, to: Point, radius: number): BrushStroke[] {
+  const { points, pressures } = stroke;
+  const reach = radius + stroke.brushSize / 2;
+  const touches = (i: number) => distanceBetweenSegments(points[i], points[i + 1], from, to) <= reach;
+  const touched = points.slice(0, -1).map((_, i) => touches(i));
+  if (!touched.includes(true)) return [stroke];
+
+  const step = Math.max(0.5, radius / 2);
+  const samples: { point: Point; pressure?: number; added?: boolean }[] = [];
+  points.forEach((point, i) => {
+    samples.push({ point, pressure: pressures?.[i] });
+    if (!touched[i]) return;
+    const next = points[i + 1];
+    const count = Math.ceil(Math.hypot(next.x - point.x, next.y - point.y) / step);
+    for (let j = 1; j < count; j++) {
+      const t = j / count;
+      samples.push({
+        point: { x: point.x + t * (next.x - point.x), y: point.y + t * (next.y - point.y) },
+        pressure: pressures && pressures[i] + t * (pressures[i + 1] - pressures[i]),
+        added: true,
+      });
+    }
+  });
+
+  const pieces: BrushStroke[] = [];
+  let run: typeof samples = [];
+  const endRun = () => {
+    if (run.length >= 2) {
+      run = run.filter((s, i) => !s.added || i === 0 || i === run.length - 1);
+      pieces.push({
+        ...stroke,
+        points: run.map(s => s.point),
+        ...(pressures && { pressures: run.map(s => s.pressure!) }),
+      });
+    }
+    run = [];
+  };
+  for (const sample of samples) {
+    if (distanceToLineSegment(sample.point, from, to) <= reach) endRun();
+    else run.push(sample);
+  }
+  endRun();
+  return pieces;
+}
+
+// Returns `strokes` itself when the eraser missed them all
+export function eraseStrokes(strokes: BrushStroke[], from: Point, to: Point, radius: number): BrushStroke[] {
+  const next = strokes.flatMap(stroke => eraseStroke(stroke, from, to, radius));
+  const unchanged = next.length === strokes.length && next.every((stroke, i) => stroke === strokes[i]);
+  return unchanged ? strokes : next;
+}
+
+// --- Compact encoding -------------------------------------------------------
+
+// Coordinates are kept to a tenth of a pixel and pressure to a hundredth. Each
+// value is stored as the difference from the previous one, written as a
+// zigzag varint: five bits per character, the sixth marking that more follow.
+const POINT_PRECISION = 10;
+const PRESSURE_PRECISION = 100;
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+function encodeIntegers(values: number[]): string {
+  let out = '';
+  for (const value of values) {
+    let n = value < 0 ? -2 * value - 1 : 2 * value;
+    while (n >= 32) {
+      out += ALPHABET[32 + (n % 32)];
+      n = Math.floor(n / 32);
+    }
+    out += ALPHABET[n];
+  }
+  return out;
+}
+
+function decodeIntegers(text: string): number[] | null {
+  const values: number[] = [];
+  let n = 0;
+  let shift = 1;
+  for (const char of text) {
+    const digit = ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    n += (digit % 32) * shift;
+    if (digit >= 32) {
+      shift *= 32;
+      continue;
+    }
+    values.push(n % 2 === 0 ? n / 2 : -(n + 1) / 2);
+    n = 0;
+    shift = 1;
+  }
+  // A trailing continuation character means the text was cut short
+  return shift === 1 ? values : null;
+}
+
+function encodeDeltas(values: number[]): string {
+  return encodeIntegers(values.map((v, i) => (i === 0 ? v : v - values[i - 1])));
+}
+
+function decodeDeltas(text: string): number[] | null {
+  const deltas = decodeIntegers(text);
+  if (!deltas) return null;
+  let total = 0;
+  return deltas.map(d => (total += d));
+}
+
+export function encodePoints(points: Point[]): string {
+  const xs = encodeDeltas(points.map(p => Math.round(p.x * POINT_PRECISION)));
+  const ys = encodeDeltas(points.map(p => Math.round(p.y * POINT_PRECISION)));
+  return `${xs}.${ys}`;
+}
+
+export function decodePoints(text: string): Point[] | null {
+  const [xText, yText, extra] = text.split('.');
+  if (yText === undefined || extra !== undefined) return null;
+  const xs = decodeDeltas(xText);
+  const ys = decodeDeltas(yText);
+  if (!xs || !ys || xs.length !== ys.length) return null;
+  return xs.map((x, i) => ({ x: x / POINT_PRECISION, y: ys[i] / POINT_PRECISION }));
+}
+
+export function encodePressures(pressures: number[]): string {
+  return encodeDeltas(pressures.map(p => Math.round(p * PRESSURE_PRECISION)));
+}
+
+export function decodePressures(text: string): number[] | null {
+  return decodeDeltas(text)?.map(p => p / PRESSURE_PRECISION) ?? null;
+}
@@ -0,0 +1,101 @@
+import { ActivityEvent, ActivityType, Annotation, Reply } from './types';
+import { AnnotationLists } from './schema';
+import { appendEvents } from './activity';
+import { replayStatusEvents } from './status';
+
+// Bringing together two copies of an annotation document edited apart: the
+// stored one and a browser's save on the server, and the server's and this
+// browser's when an image is opened. The activity log records who changed
+// what, so a copy's changes are the events it has that the base lacks, and
+// only what those events touched is taken from it. Anything else the copy
+// differs in is taken to be out of date, and nothing is deleted unless the
+// copy logged deleting it.
+
+// Whether `added` logs a change of `type`, optionally one with the given text
+function logs(added: ActivityEvent[], type: ActivityType, field?: 'before' | 'after', text?: string) {
+  return added.some(e => e.type === type && (!field || e[field] === text));
+}
+
+// Reply events carry the reply's text, which is how they are matched up
+function mergeReplies(base: Reply[], copy: Reply[], added: ActivityEvent[]): Reply[] {
+  const copies = new Map(copy.map(r => [r.id, r]));
+  const known = new Set(base.map(r => r.id));
+  const kept = base.flatMap(r => {
+    const other = copies.get(r.id);
+    if (!other) return logs(added, 'replyDeleted', 'before', r.text) ? [] : [r];
+    return other.text !== r.text && logs(added, 'replyEdited', 'after', other.text) ? [other] : [r];
+  });
+  const posted = copy.filter(r => !known.has(r.id)
+    && (logs(added, 'reply', 'after', r.text) || logs(added, 'replyRestored', 'after', r.text)));
+  // Replies are kept in the order they were written, which puts restored ones back in place
+  return [...kept, ...posted].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+const lastChange = (a: Annotation) =>
+  Math.max(a.timestamp, a.statusChangedAt ?? 0, ...a.replies.map(r => Math.max(r.timestamp, r.editedAt ?? 0)));
+
+// `base` with the changes `copy` logged that it hasn't got. `credit` rewrites
+// those events as they are added, e.g. to name who saved them.
+export function mergeAnnotation(
+  base: Annotation,
+  copy: Annotation,
+  credit: (event: ActivityEvent) => ActivityEvent = e => e
+): Annotation {
+  const known = new Set(base.activity?.map(e => e.id));
+  const unknown = (copy.activity ?? []).filter(e => !known.has(e.id));
+  // A base saved before activity was logged can't say which events it has
+  // seen; those from before its last change are taken to be in it already,
+  // and are only added to its log
+  const since = base.activity ? -Infinity : lastChange(base);
+  const seen = unknown.filter(e => e.timestamp <= since);
+  const added = unknown.filter(e => e.timestamp > since).map(credit);
+  if (unknown.length === 0) return base;
+
+  const reshaped = logs(added, 'moved') || logs(added, 'reshaped');
+  const recolored = logs(added, 'color') || logs(added, 'label');
+  const highlight = reshaped ? copy.highlight : base.highlight;
+  // Status moves that no longer fit where the base is are dropped (see status.ts)
+  const { status, moves } = replayStatusEvents(base.status, added);
+  const lastMove = moves[moves.length - 1];
+  const merged: Annotation = {
+    ...base,
+    activity: base.activity ?? [],
+    ...(logs(added, 'text') && { text: copy.text }),
+    // The highlight's color follows the annotation's
+    highlight: recolored ? { ...highlight, color: copy.highlight.color } : highlight,
+    ...(recolored && { color: copy.color }),
+    ...(logs(added, 'label') && { label: copy.label }),
+    ...(logs(added, 'severity') && { severity: copy.severity }),
+    replies: mergeReplies(base.replies, copy.replies, added),
+    status,
+    ...(lastMove && { statusChangedAt: lastMove.timestamp, statusChangedBy: lastMove.actor }),
+  };
+  return appendEvents(merged, [...seen, ...added.filter(e => e.type !== 'status' || moves.includes(e))]);
+}
+
+// `base` with the changes logged in `copy` brought in. Annotations only the
+// copy has are added as they are; ones it lacks are left alone. One moves
+// between the live and deleted lists only when the copy logged deleting or
+// restoring it, and then goes to the end of the other list.
+export function mergeLists(
+  base: AnnotationLists,
+  copy: AnnotationLists,
+  credit?: (event: ActivityEvent) => ActivityEvent
+): AnnotationLists {
+  const copies = new Map([...copy.annotations, ...copy.deleted].map(a => [a.id, a]));
+  const known = new Set([...base.annotations, ...base.deleted].map(a => a.id));
+  const merge = (list: Annotation[], live: boolean) => list.map(a => {
+    const other = copies.get(a.id);
+    const annotation = other ? mergeAnnotation(a, other, credit) : a;
+    const added = annotation.activity?.slice(a.activity?.length ?? 0) ?? [];
+    const lastMove = added.filter(e => e.type === 'deleted' || e.type === 'restored').pop();
+    return { annotation, live: lastMove ? lastMove.type === 'restored' : live };
+  });
+  const live = merge(base.annotations, true);
+  const gone = merge(base.deleted, false);
+  const pick = (list: typeof live, isLive: boolean) => list.filter(m => m.live === isLive).map(m => m.annotation);
+  return {
+    annotations: [...pick(live, true), ...pick(gone, true), ...copy.annotations.filter(a => !known.has(a.id))],
+    deleted: [...pick(gone, false), ...pick(live, false), ...copy.deleted.filter(a => !known.has(a.id))],
+  };
+}
@@ -0,0 +1,124 @@
+import { Bounds } from './geometry';
+import { getLevelSize, ImagePyramid, TILE_SIZE } from './imagePyramid';
+
+// Shows the pyramid tiles covering the visible part of the image, at the level
+// the current zoom needs. Tiles are canvases positioned in `container` by
+// percentage, so they follow its size and CSS transform without being moved.
+// The previous level stays up until the new one has fully loaded.
+
+export interface TileLayer {
+  // `view` is the visible part of the image in source pixels; `sourcePerPixel`
+  // is source pixels per device pixel at the current zoom
+  update: (view: Bounds, sourcePerPixel: number) => void;
+  dispose: () => void;
+}
+
+const MAX_CACHED_TILES = 256; // About 64 MB of 256px tiles
+
+// `onError` hears of the first tile that fails to load
+export function createTileLayer(container: HTMLElement, pyramid: ImagePyramid, onError: (err: unknown) => void): TileLayer {
+  const { size, levelCount } = pyramid;
+  const cache = new Map<string, HTMLCanvasElement>(); // Least recently used first
+  const loading = new Set<string>();
+  let wanted = new Set<string>();
+  let disposed = false;
+  let failed = false;
+
+  const createTile = (level: number, col: number, row: number, bitmap: ImageBitmap) => {
+    const levelSize = getLevelSize(size, level);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    Object.assign(canvas.style, {
+      position: 'absolute',
+      left: `${(col * TILE_SIZE * 100) / levelSize.width}%`,
+      top: `${(row * TILE_SIZE * 100) / levelSize.height}%`,
+      width: `${(bitmap.width * 100) / levelSize.width}%`,
+      height: `${(bitmap.height * 100) / levelSize.height}%`,
+      // Finer levels cover coarser ones while both are up
+      zIndex: String(levelCount - level),
+    });
+    return canvas;
+  };
+
+  // Once every wanted tile is up, take down the rest
+  const swap = () => {
+    if (![...wanted].every(key => cache.get(key)?.isConnected)) return;
+    cache.forEach((canvas, key) => {
+      if (!wanted.has(key)) canvas.remove();
+    });
+  };
+
+  const prune = () => {
+    for (const [key, canvas] of cache) {
+      if (cache.size <= MAX_CACHED_TILES) break;
+      if (wanted.has(key)) continue;
+      canvas.remove();
+      cache.delete(key);
+    }
+  };
+
+  const load = (key: string, level: number, col: number, row: number) => {
+    loading.add(key);
+    pyramid.getTile(level, col, row)
+      .then(bitmap => {
+        loading.delete(key);
+        if (disposed) {
+          bitmap.close();
+          return;
+        }
+        const canvas = createTile(level, col, row, bitmap);
+        bitmap.close();
+        cache.set(key, canvas);
+        if (wanted.has(key)) container.appendChild(canvas);
+        prune();
+        swap();
+      })
+      .catch(err => {
+        loading.delete(key);
+        if (disposed) return;
+        console.error('Failed to load image tile:', err);
+        if (!failed) onError(err);
+        failed = true;
+      });
+  };
+
+  return {
+    update: (view, sourcePerPixel) => {
+      const level = Math.max(0, Math.min(levelCount - 1, Math.floor(Math.log2(sourcePerPixel))));
+      const levelSize = getLevelSize(size, level);
+      const toLevel = levelSize.width / size.width;
+      const lastCol = Math.ceil(levelSize.width / TILE_SIZE) - 1;
+      const lastRow = Math.ceil(levelSize.height / TILE_SIZE) - 1;
+      const col0 = Math.max(0, Math.floor((view.minX * toLevel) / TILE_SIZE));
+      const col1 = Math.min(lastCol, Math.floor((view.maxX * toLevel) / TILE_SIZE));
+      const row0 = Math.max(0, Math.floor((view.minY * toLevel) / TILE_SIZE));
+      const row1 = Math.min(lastRow, Math.floor((view.maxY * toLevel) / TILE_SIZE));
+
+      wanted = new Set();
+      for (let row = row0; row <= row1; row++) {
+        for (let col = col0; col <= col1; col++) {
+          const key = `${level}/${col}/${row}`;
+          wanted.add(key);
+          const canvas = cache.get(key);
+          if (canvas) {
+            // Most recently used goes last
+            cache.delete(key);
+            cache.set(key, canvas);
+            if (!canvas.isConnected) container.appendChild(canvas);
+          } else if (!loading.has(key)) {
+            load(key, level, col, row);
+          }
+        }
+      }
+      swap();
+    },
+
+    dispose: () => {
+      disposed = true;
+      cache.forEach(canvas => canvas.remove());
+      cache.clear();
+    },
+  };
+}
@@ -3,6 +3,12 @@ export interface Point {
   y: number;
 }
 
+// Intrinsic pixel size of an image. Annotation coordinates are in these pixels.
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
 export interface RectHighlight {
   type: 'rect';
   x: number;
@@ -15,6 +21,7 @@ export interface RectHighlight {
 export interface BrushStroke {
   points: Point[];
   brushSize: number;
+  pressures?: number[]; // Stylus pressure (0-1) per point; absent for mouse and touch strokes
 }
 
 export interface BrushHighlight {
@@ -24,12 +31,120 @@ export interface BrushHighlight {
   color: string;
 }
 
-export type Highlight = RectHighlight | BrushHighlight;
+// Ellipse inscribed in the given box
+export interface EllipseHighlight {
+  type: 'ellipse';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+export interface ArrowHighlight {
+  type: 'arrow';
+  start: Point;
+  end: Point; // The arrowhead points here
+  lineWidth: number;
+  color: string;
+}
+
+// Closed shape from clicked vertices
+export interface PolygonHighlight {
+  type: 'polygon';
+  points: Point[];
+  color: string;
+}
 
+// Closed shape from a freehand outline
+export interface LassoHighlight {
+  type: 'lasso';
+  points: Point[];
+  color: string;
+}
+
+// A single spot. Drawn as a marker that keeps its screen size at any zoom.
+export interface PinHighlight {
+  type: 'pin';
+  x: number;
+  y: number;
+  color: string;
+}
+
+export type Highlight =
+  | RectHighlight
+  | BrushHighlight
+  | EllipseHighlight
+  | ArrowHighlight
+  | PolygonHighlight
+  | LassoHighlight
+  | PinHighlight;
+
+// Highlights defined by a box, which share the resize handles
+export type BoxHighlight = RectHighlight | EllipseHighlight;
+
+// Who wrote something. A snapshot is stored on each item, so renaming later
+// doesn't rewrite history.
+export interface Author {
+  id: string;
+  name: string;
+  color: string;
+  initials: string;
+}
+
+// A category an annotation is filed under, from the reviewer's own set (see
+// labels.ts). Stored as a snapshot like Author, so editing the set later
+// leaves existing annotations as they were.
+export interface Label {
+  id: string;
+  name: string;
+  color: string; // #rrggbb
+}
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+// Where an annotation is in the review workflow; see status.ts for the allowed
+// transitions. Resolved and Won't Fix are closed.
+export type AnnotationStatus = 'open' | 'in_progress' | 'needs_review' | 'resolved' | 'wont_fix';
+
+export type ActivityType =
+  | 'created'
+  | 'text'
+  | 'status'
+  | 'moved'
+  | 'reshaped'
+  | 'color'
+  | 'label'
+  | 'severity'
+  | 'reply'
+  | 'replyEdited'
+  | 'replyDeleted'
+  | 'replyRestored'
+  | 'deleted'
+  | 'restored'
+  | 'imported';
+
+// One change to an annotation, for its audit trail (see activity.ts). Values
+// are kept as text: the note, a status or severity id, a label name, a color,
+// or a highlight's bounds. Missing where there was or is nothing.
+export interface ActivityEvent {
+  id: string;
+  type: ActivityType;
+  actor: Author;
+  timestamp: number;
+  before?: string;
+  after?: string;
+}
+
+// Text is markdown (see Markdown.tsx)
 export interface Reply {
   id: string;
+  author: Author;
   text: string;
   timestamp: number;
+  // Authors @mentioned in the text, as they were when it was written
+  mentions?: Author[];
+  editedAt?: number;
 }
 
 export interface Annotation {
@@ -39,5 +154,15 @@ export interface Annotation {
   color: string;
   timestamp: number;
   replies: Reply[];
-  completed: boolean;
+  author: Author;
+  status: AnnotationStatus;
+  statusChangedAt?: number; // Missing while it has never left Open, and on items resolved before this was tracked
+  statusChangedBy?: Author;
+  label?: Label;
+  severity?: Severity;
+  // Append-only, oldest first; missing on annotations from before it was kept
+  activity?: ActivityEvent[];
 }
+
+// Fields of an annotation that can be edited after it is created
+export type AnnotationChanges = Partial<Pick<Annotation, 'text' | 'highlight' | 'color' | 'status' | 'statusChangedAt' | 'statusChangedBy' | 'label' | 'severity'>>;
@@ -0,0 +1,222 @@
+import { useCallback, useReducer } from 'react';
+import { ActivityEvent, ActivityType, Annotation, AnnotationChanges, Author, Reply } from './types';
+import { appendEvents, createEvent, describeChanges } from './activity';
+import { AnnotationLists } from './schema';
+
+// Every change to the annotation list goes through a command so it can be
+// reverted exactly. Commands store the content they need to undo themselves;
+// the activity log is never rolled back, so applying or reverting one logs
+// what it changed as new events by whoever did it.
+export type Command =
+  | { type: 'add'; annotation: Annotation }
+  | { type: 'update'; before: Annotation; after: Annotation }
+  | { type: 'delete'; annotation: Annotation; index: number }
+  | { type: 'reply'; annotationId: string; reply: Reply }
+  | { type: 'editReply'; annotationId: string; before: Reply; after: Reply }
+  | { type: 'deleteReply'; annotationId: string; reply: Reply; index: number }
+  | { type: 'import'; annotations: Annotation[] }
+  | { type: 'clear'; annotations: Annotation[] };
+
+const MAX_HISTORY = 100;
+
+// Changes one live annotation. It keeps its log as it is now, plus the events
+// `log` gives for the change.
+function edit(
+  set: AnnotationLists,
+  id: string,
+  change: (current: Annotation) => Annotation,
+  log: (current: Annotation, next: Annotation) => ActivityEvent[]
+): AnnotationLists {
+  return {
+    ...set,
+    annotations: set.annotations.map(a => {
+      if (a.id !== id) return a;
+      const next = { ...change(a), activity: a.activity };
+      return appendEvents(next, log(a, next));
+    }),
+  };
+}
+
+// Moves live annotations over to `deleted`
+function discard(set: AnnotationLists, ids: Set<string>, actor: Author): AnnotationLists {
+  return {
+    annotations: set.annotations.filter(a => !ids.has(a.id)),
+    deleted: [
+      ...set.deleted,
+      ...set.annotations.filter(a => ids.has(a.id)).map(a => appendEvents(a, [createEvent('deleted', actor)])),
+    ],
+  };
+}
+
+// Puts `annotations` into the live list at `index`. Ones coming back from
+// `deleted` bring the log they have there; the rest are new, logged as `type`.
+function insert(set: AnnotationLists, annotations: Annotation[], index: number, actor: Author, type: ActivityType): AnnotationLists {
+  const ids = new Set(annotations.map(a => a.id));
+  const inserted = annotations.map(a => {
+    const previous = set.deleted.find(d => d.id === a.id);
+    return appendEvents(previous ?? a, [createEvent(previous ? 'restored' : type, actor)]);
+  });
+  const live = [...set.annotations];
+  live.splice(Math.min(index, live.length), 0, ...inserted);
+  return { annotations: live, deleted: set.deleted.filter(d => !ids.has(d.id)) };
+}
+
+const idsOf = (annotations: Annotation[]) => new Set(annotations.map(a => a.id));
+
+export function applyCommand(set: AnnotationLists, command: Command, actor: Author): AnnotationLists {
+  switch (command.type) {
+    case 'add':
+      return insert(set, [command.annotation], set.annotations.length, actor, 'created');
+    case 'update':
+      return edit(set, command.after.id, () => command.after, (a, next) => describeChanges(a, next, actor));
+    case 'delete':
+      return discard(set, idsOf([command.annotation]), actor);
+    case 'reply': {
+      const { reply } = command;
+      return edit(set, command.annotationId, a => ({ ...a, replies: [...a.replies, reply] }), () => [
+        createEvent('reply', actor, undefined, reply.text),
+      ]);
+    }
+    case 'editReply': {
+      const { before, after } = command;
+      return edit(set, command.annotationId, a => ({ ...a, replies: a.replies.map(r => (r.id === after.id ? after : r)) }), () => [
+        createEvent('replyEdited', actor, before.text, after.text),
+      ]);
+    }
+    case 'deleteReply': {
+      const { reply } = command;
+      return edit(set, command.annotationId, a => ({ ...a, replies: a.replies.filter(r => r.id !== reply.id) }), () => [
+        createEvent('replyDeleted', actor, reply.text),
+      ]);
+    }
+    case 'import':
+      return insert(set, command.annotations, set.annotations.length, actor, 'imported');
+    case 'clear':
+      return discard(set, idsOf(command.annotations), actor);
+  }
+}
+
+export function revertCommand(set: AnnotationLists, command: Command, actor: Author): AnnotationLists {
+  switch (command.type) {
+    case 'add':
+      return discard(set, idsOf([command.annotation]), actor);
+    case 'update':
+      return edit(set, command.before.id, () => command.before, (a, next) => describeChanges(a, next, actor));
+    case 'delete':
+      // Put it back where it was so list order (and numbering) is preserved
+      return insert(set, [command.annotation], command.index, actor, 'restored');
+    case 'reply': {
+      const { reply } = command;
+      return edit(set, command.annotationId, a => ({ ...a, replies: a.replies.filter(r => r.id !== reply.id) }), () => [
+        createEvent('replyDeleted', actor, reply.text),
+      ]);
+    }
+    case 'editReply': {
+      const { before, after } = command;
+      return edit(set, command.annotationId, a => ({ ...a, replies: a.replies.map(r => (r.id === before.id ? before : r)) }), () => [
+        createEvent('replyEdited', actor, after.text, before.text),
+      ]);
+    }
+    case 'deleteReply': {
+      const { reply, index } = command;
+      return edit(set, command.annotationId, a => {
+        const replies = [...a.replies];
+        replies.splice(Math.min(index, replies.length), 0, reply);
+        return { ...a, replies };
+      }, () => [createEvent('replyRestored', actor, undefined, reply.text)]);
+    }
+    case 'import':
+      return discard(set, idsOf(command.annotations), actor);
+    case 'clear':
+      return insert(set, command.annotations, 0, actor, 'restored');
+  }
+}
+
+interface HistoryState extends AnnotationLists {
+  past: Command[];
+  future: Command[];
+}
+
+// Undo and redo are changes in their own right, logged as `actor`'s
+type HistoryAction =
+  | { type: 'execute'; command: Command; actor: Author }
+  | { type: 'patch'; id: string; changes: AnnotationChanges; actor: Author }
+  | { type: 'delete'; id: string; actor: Author }
+  | { type: 'undo'; actor: Author }
+  | { type: 'redo'; actor: Author }
+  | { type: 'reset'; annotations: Annotation[]; deleted: Annotation[] };
+
+function executeCommand(state: HistoryState, command: Command, actor: Author): HistoryState {
+  return {
+    ...applyCommand(state, command, actor),
+    past: [...state.past, command].slice(-MAX_HISTORY),
+    future: [],
+  };
+}
+
+function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+  switch (action.type) {
+    case 'execute':
+      return executeCommand(state, action.command, action.actor);
+    case 'patch': {
+      // Built from the current state so callers don't need the latest annotation
+      const before = state.annotations.find(a => a.id === action.id);
+      if (!before) return state;
+      return executeCommand(state, { type: 'update', before, after: { ...before, ...action.changes } }, action.actor);
+    }
+    case 'delete': {
+      const index = state.annotations.findIndex(a => a.id === action.id);
+      if (index === -1) return state;
+      return executeCommand(state, { type: 'delete', annotation: state.annotations[index], index }, action.actor);
+    }
+    case 'undo': {
+      const command = state.past[state.past.length - 1];
+      if (!command) return state;
+      return {
+        ...revertCommand(state, command, action.actor),
+        past: state.past.slice(0, -1),
+        future: [command, ...state.future],
+      };
+    }
+    case 'redo': {
+      const [command, ...future] = state.future;
+      if (!command) return state;
+      return {
+        ...applyCommand(state, command, action.actor),
+        past: [...state.past, command],
+        future,
+      };
+    }
+    case 'reset':
+      // Loading a document starts a fresh history
+      return { annotations: action.annotations, deleted: action.deleted, past: [], future: [] };
+  }
+}
+
+// `actor` is who the activity log credits with changes
+export function useAnnotationHistory(actor: Author) {
+  const [state, dispatch] = useReducer(historyReducer, { annotations: [], deleted: [], past: [], future: [] });
+
+  const execute = useCallback((command: Command) => dispatch({ type: 'execute', command, actor }), [actor]);
+  const update = useCallback((id: string, changes: AnnotationChanges) => dispatch({ type: 'patch', id, changes, actor }), [actor]);
+  const remove = useCallback((id: string) => dispatch({ type: 'delete', id, actor }), [actor]);
+  const undo = useCallback(() => dispatch({ type: 'undo', actor }), [actor]);
+  const redo = useCallback(() => dispatch({ type: 'redo', actor }), [actor]);
+  const reset = useCallback(
+    (annotations: Annotation[], deleted: Annotation[] = []) => dispatch({ type: 'reset', annotations, deleted }),
+    []
+  );
+
+  return {
+    annotations: state.annotations,
+    deleted: state.deleted,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    execute,
+    update,
+    remove,
+    undo,
+    redo,
+    reset,
+  };
+}
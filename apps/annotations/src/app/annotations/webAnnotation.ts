@@ -0,0 +1,580 @@
+import { ActivityEvent, ActivityType, Annotation, AnnotationStatus, Author, BrushHighlight, BrushStroke, Highlight, Label, Point, Reply } from './types';
+import { STATUSES, UNKNOWN_AUTHOR, validateActivityEvent, validateAnnotation, validateLabel } from './schema';
+import { isClosed } from './status';
+import { createId } from './ids';
+import { ANNOTATION_COLORS } from './colors';
+import { getInitials } from './profile';
+
+// Conversion between our annotations and the W3C Web Annotation Data Model
+// (https://www.w3.org/TR/annotation-model/), serialized as JSON-LD.
+//
+//   RectHighlight   -> FragmentSelector (xywh=pixel:x,y,w,h)
+//   BrushHighlight  -> SvgSelector (one <path> per stroke, stylus pressure in data-pressures)
+//   EllipseHighlight -> SvgSelector <ellipse>
+//   ArrowHighlight  -> SvgSelector <line class="arrow">
+//   Polygon/Lasso   -> SvgSelector <polygon class="polygon|lasso">
+//   PinHighlight    -> FragmentSelector for the single pixel (xywh=pixel:x,y,1,1)
+//   Reply           -> Annotation with motivation "replying" targeting its parent
+//                      (markdown body; editedAt -> modified, mentions -> schema:mentions)
+//   status          -> schema:actionStatus (Active, or Completed/Failed once closed) and, exactly,
+//                      a schema:additionalProperty named "status"; a close's statusChangedAt -> schema:endTime
+//   color           -> inline CssStylesheet + styleClass on the target
+//   author          -> creator (Person; initials as nickname, color as schema:color)
+//   label           -> TextualBody with purpose "tagging" (id as schema:identifier, color as schema:color)
+//   activity        -> schema:subjectOf, one schema:UpdateAction per event (type as schema:name,
+//                      actor as schema:agent, before/after as schema:replacee/schema:replacer)
+
+const ANNO_CONTEXT = 'http://www.w3.org/ns/anno.jsonld';
+const SCHEMA_CONTEXT = { schema: 'http://schema.org/' };
+const MEDIA_FRAGMENTS = 'http://www.w3.org/TR/media-frags/';
+const STYLE_CLASS = 'highlight';
+const DEFAULT_COLOR = ANNOTATION_COLORS[0];
+
+const ACTION_STATUSES: Record<AnnotationStatus, string> = {
+  open: 'schema:ActiveActionStatus',
+  in_progress: 'schema:ActiveActionStatus',
+  needs_review: 'schema:ActiveActionStatus',
+  resolved: 'schema:CompletedActionStatus',
+  wont_fix: 'schema:FailedActionStatus',
+};
+
+interface TextualBody {
+  type: 'TextualBody';
+  value: string;
+  format: 'text/plain' | 'text/markdown';
+  purpose?: string;
+  'schema:identifier'?: string;
+  'schema:color'?: string;
+}
+
+interface Creator {
+  id: string;
+  type: 'Person';
+  name: string;
+  nickname: string;
+  'schema:color': string;
+}
+
+interface Selector {
+  type: string;
+  value: string;
+  conformsTo?: string;
+}
+
+interface ActivityAction {
+  type: 'schema:UpdateAction';
+  'schema:identifier': string;
+  'schema:name': ActivityType;
+  'schema:agent': Creator;
+  'schema:startTime': string;
+  'schema:replacee'?: string;
+  'schema:replacer'?: string;
+}
+
+export interface WebAnnotation {
+  id: string;
+  type: 'Annotation';
+  motivation: string;
+  created: string;
+  modified?: string;
+  creator: Creator;
+  body?: TextualBody[];
+  target: string | {
+    source: string;
+    selector: Selector;
+    styleClass?: string;
+  };
+  stylesheet?: { type: 'CssStylesheet'; value: string };
+  'schema:actionStatus'?: string;
+  'schema:additionalProperty'?: { type: 'schema:PropertyValue'; 'schema:name': string; 'schema:value': string };
+  'schema:endTime'?: string;
+  'schema:mentions'?: Creator[];
+  'schema:subjectOf'?: ActivityAction[];
+}
+
+export interface WebAnnotationCollection {
+  '@context': unknown[];
+  id: string;
+  type: 'AnnotationCollection';
+  label: string;
+  total: number;
+  first: {
+    id: string;
+    type: 'AnnotationPage';
+    startIndex: number;
+    items: WebAnnotation[];
+  };
+}
+
+export interface ImportResult {
+  annotations: Annotation[];
+  // Human-readable reasons for items that could not be converted
+  skipped: string[];
+}
+
+const toUrn = (id: string) => `urn:uuid:${id}`;
+const fromUrn = (id: string) => id.replace(/^urn:uuid:/, '');
+export const imageSourceUri = (imageId: string) => `urn:sha256:${imageId}`;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// --- Export -----------------------------------------------------------------
+
+function strokeToPath(stroke: BrushStroke): string {
+  return stroke.points
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)},${round(p.y)}`)
+    .join(' ');
+}
+
+function escapeAttribute(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+const svgSelector = (content: string): Selector => ({
+  type: 'SvgSelector',
+  value: `<svg xmlns="http://www.w3.org/2000/svg">${content}</svg>`,
+});
+
+function highlightToSelector(highlight: Highlight): Selector {
+  const color = escapeAttribute(highlight.color);
+  switch (highlight.type) {
+    case 'rect': {
+      const { x, y, width, height } = highlight;
+      return {
+        type: 'FragmentSelector',
+        conformsTo: MEDIA_FRAGMENTS,
+        value: `xywh=pixel:${Math.round(x)},${Math.round(y)},${Math.round(width)},${Math.round(height)}`,
+      };
+    }
+    case 'ellipse': {
+      const { x, y, width, height } = highlight;
+      return svgSelector(
+        `<ellipse cx="${round(x + width / 2)}" cy="${round(y + height / 2)}" ` +
+        `rx="${round(width / 2)}" ry="${round(height / 2)}" fill="${color}"/>`
+      );
+    }
+    case 'arrow': {
+      const { start, end } = highlight;
+      return svgSelector(
+        `<line class="arrow" x1="${round(start.x)}" y1="${round(start.y)}" x2="${round(end.x)}" y2="${round(end.y)}" ` +
+        `stroke="${color}" stroke-width="${round(highlight.lineWidth)}"/>`
+      );
+    }
+    case 'pin':
+      return {
+        type: 'FragmentSelector',
+        conformsTo: MEDIA_FRAGMENTS,
+        value: `xywh=pixel:${Math.floor(highlight.x)},${Math.floor(highlight.y)},1,1`,
+      };
+    case 'polygon':
+    case 'lasso': {
+      const points = highlight.points.map(p => `${round(p.x)},${round(p.y)}`).join(' ');
+      return svgSelector(`<polygon class="${highlight.type}" points="${points}" fill="${color}"/>`);
+    }
+    case 'brush':
+      return brushToSelector(highlight);
+  }
+}
+
+function brushToSelector(highlight: BrushHighlight): Selector {
+  const paths = highlight.strokes.map(stroke =>
+    `<path d="${strokeToPath(stroke)}" fill="none" stroke="${escapeAttribute(highlight.color)}" ` +
+    `stroke-width="${round(stroke.brushSize)}" stroke-opacity="${highlight.opacity}" ` +
+    `stroke-linecap="round" stroke-linejoin="round"` +
+    (stroke.pressures ? ` data-pressures="${stroke.pressures.map(p => round(p)).join(' ')}"` : '') +
+    '/>'
+  );
+  return svgSelector(paths.join(''));
+}
+
+function authorToCreator(author: Author): Creator {
+  return {
+    id: toUrn(author.id),
+    type: 'Person',
+    name: author.name,
+    nickname: author.initials,
+    'schema:color': author.color,
+  };
+}
+
+function textBody(text: string, purpose: string, format: TextualBody['format'] = 'text/plain'): TextualBody[] | undefined {
+  return text ? [{ type: 'TextualBody', value: text, format, purpose }] : undefined;
+}
+
+function labelBody(label: Label): TextualBody {
+  return {
+    type: 'TextualBody',
+    value: label.name,
+    format: 'text/plain',
+    purpose: 'tagging',
+    'schema:identifier': label.id,
+    'schema:color': label.color,
+  };
+}
+
+function eventToAction(event: ActivityEvent): ActivityAction {
+  return {
+    type: 'schema:UpdateAction',
+    'schema:identifier': event.id,
+    'schema:name': event.type,
+    'schema:agent': authorToCreator(event.actor),
+    'schema:startTime': new Date(event.timestamp).toISOString(),
+    ...(event.before !== undefined && { 'schema:replacee': event.before }),
+    ...(event.after !== undefined && { 'schema:replacer': event.after }),
+  };
+}
+
+function replyToWebAnnotation(reply: Reply, parentId: string): WebAnnotation {
+  const annotation: WebAnnotation = {
+    id: toUrn(reply.id),
+    type: 'Annotation',
+    motivation: 'replying',
+    created: new Date(reply.timestamp).toISOString(),
+    creator: authorToCreator(reply.author),
+    body: textBody(reply.text, 'replying', 'text/markdown'),
+    target: toUrn(parentId),
+  };
+  if (reply.editedAt !== undefined) annotation.modified = new Date(reply.editedAt).toISOString();
+  if (reply.mentions?.length) annotation['schema:mentions'] = reply.mentions.map(authorToCreator);
+  return annotation;
+}
+
+export function toWebAnnotations(annotation: Annotation, imageId: string): WebAnnotation[] {
+  const main: WebAnnotation = {
+    id: toUrn(annotation.id),
+    type: 'Annotation',
+    motivation: annotation.text ? 'commenting' : 'highlighting',
+    created: new Date(annotation.timestamp).toISOString(),
+    creator: authorToCreator(annotation.author),
+    body: annotation.label
+      ? [...(textBody(annotation.text, 'commenting') ?? []), labelBody(annotation.label)]
+      : textBody(annotation.text, 'commenting'),
+    target: {
+      source: imageSourceUri(imageId),
+      selector: highlightToSelector(annotation.highlight),
+      styleClass: STYLE_CLASS,
+    },
+    stylesheet: {
+      type: 'CssStylesheet',
+      value: `.${STYLE_CLASS} { background-color: ${annotation.color}; }`,
+    },
+    'schema:actionStatus': ACTION_STATUSES[annotation.status],
+    'schema:additionalProperty': { type: 'schema:PropertyValue', 'schema:name': 'status', 'schema:value': annotation.status },
+  };
+  if (isClosed(annotation.status) && annotation.statusChangedAt !== undefined) {
+    main['schema:endTime'] = new Date(annotation.statusChangedAt).toISOString();
+  }
+  if (annotation.activity?.length) main['schema:subjectOf'] = annotation.activity.map(eventToAction);
+  return [main, ...annotation.replies.map(r => replyToWebAnnotation(r, annotation.id))];
+}
+
+export function exportWebAnnotationCollection(annotations: Annotation[], imageId: string): WebAnnotationCollection {
+  const items = annotations.flatMap(a => toWebAnnotations(a, imageId));
+  const collectionId = `${imageSourceUri(imageId)}#annotations`;
+  return {
+    '@context': [ANNO_CONTEXT, SCHEMA_CONTEXT],
+    id: collectionId,
+    type: 'AnnotationCollection',
+    label: `Annotations for image ${imageId.slice(0, 12)}`,
+    total: items.length,
+    first: {
+      id: `${collectionId}-page1`,
+      type: 'AnnotationPage',
+      startIndex: 0,
+      items,
+    },
+  };
+}
+
+// --- Import -----------------------------------------------------------------
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+// Accept a collection, a page, a bare array or a single annotation
+function collectItems(data: unknown): unknown[] {
+  if (Array.isArray(data)) return data;
+  if (!isObject(data)) return [];
+  const type = asArray(data.type);
+  if (type.includes('AnnotationCollection')) {
+    const first = data.first;
+    return isObject(first) ? asArray(first.items) : [];
+  }
+  if (type.includes('AnnotationPage')) return asArray(data.items);
+  return [data];
+}
+
+const isTagging = (body: unknown) => isObject(body) && asArray(body.purpose).includes('tagging');
+
+function bodyText(item: Json): string {
+  const texts = asArray(item.body)
+    .filter(body => !isTagging(body))
+    .map(body => {
+      if (typeof body === 'string') return body;
+      if (isObject(body) && typeof body.value === 'string') return body.value;
+      return null;
+    })
+    .filter((t): t is string => t !== null);
+  if (texts.length > 0) return texts.join('\n');
+  return typeof item.bodyValue === 'string' ? item.bodyValue : '';
+}
+
+// The first tag that carries our label fields; tags from other tools are ignored
+function parseLabel(item: Json): Label | undefined {
+  for (const body of asArray(item.body).filter(isTagging)) {
+    if (!isObject(body)) continue;
+    const label = { id: body['schema:identifier'], name: body.value, color: body['schema:color'] };
+    if (validateLabel(label).length === 0) return label as Label;
+  }
+  return undefined;
+}
+
+// Our activity events; actions that don't read as one are dropped
+function parseActivity(item: Json): ActivityEvent[] {
+  return asArray(item['schema:subjectOf']).flatMap(action => {
+    if (!isObject(action)) return [];
+    const event = {
+      id: action['schema:identifier'],
+      type: action['schema:name'],
+      actor: parsePerson(action['schema:agent']),
+      timestamp: typeof action['schema:startTime'] === 'string' ? Date.parse(action['schema:startTime']) : NaN,
+      ...(action['schema:replacee'] !== undefined && { before: action['schema:replacee'] }),
+      ...(action['schema:replacer'] !== undefined && { after: action['schema:replacer'] }),
+    };
+    return validateActivityEvent(event).length === 0 ? [event as ActivityEvent] : [];
+  });
+}
+
+function parseTimestamp(value: unknown): number {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isFinite(time) ? time : Date.now();
+}
+
+// Creators from other tools may be a bare IRI or lack our extensions
+function parseCreator(item: Json): Author {
+  return parsePerson(asArray(item.creator)[0]) ?? UNKNOWN_AUTHOR;
+}
+
+function parsePerson(creator: unknown): Author | null {
+  if (!isObject(creator) || typeof creator.name !== 'string' || !creator.name.trim()) {
+    return null;
+  }
+  const name = creator.name.trim();
+  return {
+    id: typeof creator.id === 'string' ? fromUrn(creator.id) : `name:${name}`,
+    name,
+    color: typeof creator['schema:color'] === 'string' ? creator['schema:color'] : UNKNOWN_AUTHOR.color,
+    initials: typeof creator.nickname === 'string' && creator.nickname ? creator.nickname : getInitials(name),
+  };
+}
+
+// Our exact status when present, else the nearest to other tools' actionStatus
+function parseStatus(item: Json): AnnotationStatus {
+  const property = asArray(item['schema:additionalProperty'])
+    .find(p => isObject(p) && p['schema:name'] === 'status');
+  const exact = isObject(property) ? property['schema:value'] : undefined;
+  if (STATUSES.includes(exact as AnnotationStatus)) return exact as AnnotationStatus;
+  const actionStatus = item['schema:actionStatus'];
+  if (actionStatus === ACTION_STATUSES.resolved) return 'resolved';
+  if (actionStatus === ACTION_STATUSES.wont_fix) return 'wont_fix';
+  return 'open';
+}
+
+function parseColor(item: Json): string | null {
+  const stylesheet = item.stylesheet;
+  const css = isObject(stylesheet) && typeof stylesheet.value === 'string' ? stylesheet.value : '';
+  const match = css.match(/background-color:\s*([^;}]+)/);
+  return match ? match[1].trim() : null;
+}
+
+function parseAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? match[1].replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&amp;/g, '&') : null;
+}
+
+function parsePathPoints(d: string): Point[] {
+  const numbers = d.replace(/[MLml]/g, ' ').trim().split(/[\s,]+/).map(Number);
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    points.push({ x: numbers[i], y: numbers[i + 1] });
+  }
+  return points;
+}
+
+function parseNumberAttribute(tag: string, name: string): number {
+  return Number(parseAttribute(tag, name) ?? NaN);
+}
+
+// Single-element SVG selectors: <ellipse>, <circle>, <line> (arrow) and <polygon>
+function svgShapeToHighlight(svg: string, fallbackColor: string): Highlight | string | null {
+  const tag = svg.match(/<(ellipse|circle|line|polygon)\b[^>]*>/)?.[0];
+  if (!tag) return null;
+  const color = parseAttribute(tag, 'fill') ?? parseAttribute(tag, 'stroke') ?? fallbackColor;
+
+  if (tag.startsWith('<ellipse') || tag.startsWith('<circle')) {
+    const cx = parseNumberAttribute(tag, 'cx');
+    const cy = parseNumberAttribute(tag, 'cy');
+    const r = parseNumberAttribute(tag, 'r');
+    const rx = tag.startsWith('<circle') ? r : parseNumberAttribute(tag, 'rx');
+    const ry = tag.startsWith('<circle') ? r : parseNumberAttribute(tag, 'ry');
+    if (![cx, cy, rx, ry].every(Number.isFinite)) return 'ellipse is missing its center or radii';
+    return { type: 'ellipse', x: cx - rx, y: cy - ry, width: rx * 2, height: ry * 2, color };
+  }
+
+  if (tag.startsWith('<line')) {
+    const [x1, y1, x2, y2] = ['x1', 'y1', 'x2', 'y2'].map(name => parseNumberAttribute(tag, name));
+    if (![x1, y1, x2, y2].every(Number.isFinite)) return 'line is missing its end points';
+    const lineWidth = parseNumberAttribute(tag, 'stroke-width');
+    return {
+      type: 'arrow',
+      start: { x: x1, y: y1 },
+      end: { x: x2, y: y2 },
+      lineWidth: Number.isFinite(lineWidth) && lineWidth > 0 ? lineWidth : 4,
+      color,
+    };
+  }
+
+  const points = parsePathPoints(parseAttribute(tag, 'points') ?? '');
+  if (points.length < 3 || !points.every(p => Number.isFinite(p.x) && Number.isFinite(p.y))) {
+    return 'polygon needs at least 3 points';
+  }
+  return { type: parseAttribute(tag, 'class') === 'lasso' ? 'lasso' : 'polygon', points, color };
+}
+
+function selectorToHighlight(selector: Json, color: string): Highlight | string {
+  const value = typeof selector.value === 'string' ? selector.value : '';
+
+  if (selector.type === 'FragmentSelector') {
+    const match = value.match(/^xywh=(pixel:)?(-?[\d.]+),(-?[\d.]+),([\d.]+),([\d.]+)$/);
+    if (!match) return `unsupported fragment "${value}"`;
+    const [, , x, y, width, height] = match;
+    // A single pixel is a pin, placed at the pixel's centre
+    if (+width === 1 && +height === 1) return { type: 'pin', x: +x + 0.5, y: +y + 0.5, color };
+    return { type: 'rect', x: +x, y: +y, width: +width, height: +height, color };
+  }
+
+  if (selector.type === 'SvgSelector') {
+    const shape = svgShapeToHighlight(value, color);
+    if (shape) return shape;
+
+    const paths = value.match(/<path\b[^>]*>/g) ?? [];
+    let opacity = 1;
+    let strokeColor: string | null = null;
+    const strokes: BrushStroke[] = [];
+    for (const tag of paths) {
+      const d = parseAttribute(tag, 'd');
+      if (!d || /[^MLml\d\s,.eE+-]/.test(d)) return 'SVG paths may only use M and L commands';
+      const points = parsePathPoints(d);
+      const width = Number(parseAttribute(tag, 'stroke-width') ?? 20);
+      opacity = Number(parseAttribute(tag, 'stroke-opacity') ?? opacity);
+      strokeColor = strokeColor ?? parseAttribute(tag, 'stroke');
+      const pressures = parseAttribute(tag, 'data-pressures')?.trim().split(/\s+/).map(Number);
+      const validPressures = pressures?.length === points.length && pressures.every(p => p >= 0 && p <= 1);
+      if (points.length >= 2) strokes.push({ points, brushSize: width, ...(validPressures && { pressures }) });
+    }
+    if (strokes.length === 0) return 'SVG selector has no usable <path> elements';
+    const brush: BrushHighlight = {
+      type: 'brush',
+      strokes,
+      opacity: Number.isFinite(opacity) ? opacity : 1,
+      color: strokeColor ?? color,
+    };
+    return brush;
+  }
+
+  return `unsupported selector type "${String(selector.type)}"`;
+}
+
+// Convert JSON-LD into annotations. Ids already in `existingIds` are replaced
+// so an import never overwrites annotations that are already loaded.
+export function importWebAnnotations(data: unknown, existingIds: Iterable<string> = []): ImportResult {
+  const skipped: string[] = [];
+  const items = collectItems(data).filter(isObject);
+  const taken = new Set(existingIds);
+  const idMap = new Map<string, string>();
+
+  const claimId = (rawId: unknown) => {
+    const original = typeof rawId === 'string' ? fromUrn(rawId) : '';
+    const id = original && !taken.has(original) ? original : createId();
+    taken.add(id);
+    if (original) idMap.set(original, id);
+    return id;
+  };
+
+  const isReply = (item: Json) => asArray(item.motivation).includes('replying');
+  const annotations: Annotation[] = [];
+
+  for (const item of items.filter(item => !isReply(item))) {
+    const target = asArray(item.target)[0];
+    const selector = isObject(target) ? asArray(target.selector)[0] : undefined;
+    if (!isObject(selector)) {
+      skipped.push(`${String(item.id ?? 'annotation')}: no selector on target`);
+      continue;
+    }
+
+    const color = parseColor(item) ?? DEFAULT_COLOR;
+    const highlight = selectorToHighlight(selector, color);
+    if (typeof highlight === 'string') {
+      skipped.push(`${String(item.id ?? 'annotation')}: ${highlight}`);
+      continue;
+    }
+
+    const status = parseStatus(item);
+    const annotation: Annotation = {
+      id: claimId(item.id),
+      text: bodyText(item),
+      highlight,
+      color: highlight.color,
+      timestamp: parseTimestamp(item.created),
+      replies: [],
+      author: parseCreator(item),
+      status,
+    };
+    if (isClosed(status) && typeof item['schema:endTime'] === 'string') {
+      annotation.statusChangedAt = parseTimestamp(item['schema:endTime']);
+    }
+    const label = parseLabel(item);
+    if (label) annotation.label = label;
+    const activity = parseActivity(item);
+    if (activity.length > 0) annotation.activity = activity;
+    annotations.push(annotation);
+  }
+
+  for (const item of items.filter(isReply)) {
+    const target = asArray(item.target)[0];
+    const targetId = typeof target === 'string' ? target : isObject(target) ? target.id ?? target.source : null;
+    const parentId = typeof targetId === 'string' ? idMap.get(fromUrn(targetId)) : undefined;
+    const parent = annotations.find(a => a.id === parentId);
+    if (!parent) {
+      skipped.push(`${String(item.id ?? 'reply')}: reply target not found`);
+      continue;
+    }
+    const reply: Reply = {
+      id: claimId(item.id),
+      text: bodyText(item),
+      timestamp: parseTimestamp(item.created),
+      author: parseCreator(item),
+    };
+    if (typeof item.modified === 'string') reply.editedAt = parseTimestamp(item.modified);
+    const mentions = asArray(item['schema:mentions']).map(parsePerson).filter((m): m is Author => m !== null);
+    if (mentions.length > 0) reply.mentions = mentions;
+    parent.replies.push(reply);
+  }
+
+  for (const parent of annotations) {
+    parent.replies.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  const valid = annotations.filter(a => {
+    const errors = validateAnnotation(a);
+    if (errors.length > 0) skipped.push(`${a.id}: ${errors.join('; ')}`);
+    return errors.length === 0;
+  });
+
+  return { annotations: valid, skipped };
+}